@@ -1,20 +1,58 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { NBTParser, NBTWriter } from './utils/nbtParser';
-import { NBTFile, NBTTag, TagType } from './types';
-import { NBTNode } from './components/NBTNode';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { JAVA_FORMAT, renameGzipHeader } from './utils/nbtParser';
+import { NBTFile, NBTTag, TagType, RegionData } from './types';
+import { NBTTreeView, ExpandSignal } from './components/NBTTreeView';
 import { PlayerPreview } from './components/PlayerPreview';
-import { deleteNodesByPaths, flattenTree, cloneTag } from './utils/treeUtils';
+import { RegionView } from './components/RegionView';
+import { PasteImportDialog } from './components/PasteImportDialog';
+import { SaveAsDialog, SaveOptions } from './components/SaveAsDialog';
+import { SaveAllDialog, ArchiveSummaryEntry } from './components/SaveAllDialog';
+import { TaskProgress } from './components/TaskProgress';
+import { PathQueryBar } from './components/PathQueryBar';
+import { DiffView } from './components/DiffView';
+import { MergeDialog } from './components/MergeDialog';
+import { BatchDialog } from './components/BatchDialog';
+import { UUIDMigrationDialog } from './components/UUIDMigrationDialog';
+import { ItemUpgradeDialog } from './components/ItemUpgradeDialog';
+import { CommandDialog } from './components/CommandDialog';
+import { FindReplacePanel } from './components/FindReplacePanel';
+import { SearchResultsPanel } from './components/SearchResultsPanel';
+import { SearchIndex } from './utils/searchIndex';
+import { deleteNodesByIds, flattenTree, cloneTag, getNodeId, findById, NodeId } from './utils/treeUtils';
+import { NBTPath, PathMatch } from './utils/nbtPath';
+import { RegionParser, RegionWriter, isRegionFilename } from './utils/regionFile';
+import { parseInWorker, writeInWorker, isCancelled } from './utils/nbtWorkerClient';
+import { ZipWriter, ZipEntry } from './utils/zipFile';
+import { Workspace, WorkspaceEntry, workspaceFromFileList, readDroppedItems, renamePath } from './utils/workspace';
+import { WorkspaceExplorer } from './components/WorkspaceExplorer';
+import { MigrationReport, MappingRow } from './utils/uuidMigration';
+import { ItemUpgradeReport } from './utils/itemStack';
+import { TexturePack, loadTexturePack } from './utils/textureIndex';
+import { UserCache, USERCACHE_FILENAME, parseUserCache, playerNameFor, uuidFromFilename, findPlayers } from './utils/userCache';
 import { 
     FileUp, Save, X, Box, Search, 
     ChevronsDown, ChevronsUp, FolderOpen, FolderClosed, 
     Trash2, RotateCcw, RotateCw, CheckSquare, Square, Info,
-    User
+    User, ClipboardPaste, SaveAll, GitCompare, GitMerge, Replace,
+    ChevronUp, ChevronDown, ListTree, Layers, Archive, FolderInput, Fingerprint, PackageCheck, Terminal
 } from 'lucide-react';
 
-type ExpandSignal = {
-    id: number;
-    type: 'expand_all' | 'collapse_all' | 'expand_selected' | 'collapse_selected';
-    targets?: Set<string>;
+type BackgroundTask = {
+    label: string;
+    done: number;
+    total: number;
+    cancel: () => void;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
 };
 
 const App: React.FC = () => {
@@ -23,16 +61,35 @@ const App: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   
   // Selection State
-  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
-  const [lastClickedPath, setLastClickedPath] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<NodeId>>(new Set());
+  const [lastClickedId, setLastClickedId] = useState<NodeId | null>(null);
   
   // Expansion Signal
   const [expandSignal, setExpandSignal] = useState<ExpandSignal>({ id: 0, type: 'expand_all' });
   
   // Preview Modal State
   const [showPreview, setShowPreview] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showMigration, setShowMigration] = useState(false);
+  const [showItemUpgrade, setShowItemUpgrade] = useState(false);
+  const [showCommand, setShowCommand] = useState(false);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [showPasteImport, setShowPasteImport] = useState(false);
+  const [showSaveAs, setShowSaveAs] = useState(false);
+  const [saveAllSelection, setSaveAllSelection] = useState<string[] | null>(null);
+
+  // Parse/serialize running in the worker
+  const [task, setTask] = useState<BackgroundTask | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [userCache, setUserCache] = useState<UserCache>(new Map());
+  const [texturePacks, setTexturePacks] = useState<TexturePack[]>([]);
+  const [searchFocused, setSearchFocused] = useState(false);
   const activeFile = files.find(f => f.id === activeFileId);
 
   // --- History Management ---
@@ -44,7 +101,66 @@ const App: React.FC = () => {
       }));
   };
 
+  // Open chunk tabs are re-read from the new chunks; their old roots would otherwise overwrite them on save
+  const replaceRegion = (prev: NBTFile[], fileId: string, region: RegionData, roots: Map<string, NBTTag>, update: Partial<NBTFile>): NBTFile[] =>
+      prev.map(f => {
+          if (f.id === fileId) return { ...f, ...update, region, isModified: true };
+          const root = roots.get(f.id);
+          return root ? { ...f, root, originalRoot: root, isModified: false, undoStack: [], redoStack: [] } : f;
+      });
+
+  // Decoded before any state changes, so a corrupt chunk cancels the whole change; null when one fails
+  const rereadChunkTabs = (fileId: string, region: RegionData): Map<string, NBTTag> | null => {
+      const old = files.find(f => f.id === fileId)?.region;
+      const roots = new Map<string, NBTTag>();
+      for (const f of files) {
+          if (f.chunkOf?.regionFileId !== fileId) continue;
+          const chunk = region.chunks[f.chunkOf.index];
+          if (!chunk || chunk === old?.chunks[f.chunkOf.index]) continue;
+          try {
+              roots.set(f.id, RegionParser.readChunk(chunk));
+          } catch (e) {
+              console.error(e);
+              alert(`無法解析區塊 [${chunk.x}, ${chunk.z}]`);
+              return null;
+          }
+      }
+      return roots;
+  };
+
+  // Unsaved chunk tabs can't be re-read without losing their edits, so region changes wait until they're saved back
+  const blockedByChunkTabs = (regionFileIds: string[]): boolean => {
+      const blocking = files.filter(f => f.chunkOf && regionFileIds.includes(f.chunkOf.regionFileId) && f.isModified);
+      if (blocking.length === 0) return false;
+      alert(`請先儲存或關閉以下區塊分頁:\n${blocking.map(f => f.filename).join('\n')}`);
+      return true;
+  };
+
+  // Each changed region gets an undo step; nothing is applied when one of them can't be
+  const pushRegionHistory = (changes: { fileId: string; region?: RegionData }[]): boolean => {
+      const regions = changes.filter((c): c is { fileId: string; region: RegionData } => !!c.region);
+      if (blockedByChunkTabs(regions.map(c => c.fileId))) return false;
+      const rereads = regions.map(c => rereadChunkTabs(c.fileId, c.region));
+      if (rereads.some(roots => roots === null)) return false;
+      setFiles(prev => regions.reduce((acc, { fileId, region }, i) => {
+          const file = acc.find(f => f.id === fileId);
+          if (!file?.region) return acc;
+          const regionUndoStack = [...(file.regionUndoStack ?? []), file.region].slice(-50);
+          return replaceRegion(acc, fileId, region, rereads[i]!, { regionUndoStack, regionRedoStack: [] });
+      }, prev));
+      return true;
+  };
+
   const handleUndo = useCallback(() => {
+      if (activeFile?.region) {
+          const undo = activeFile.regionUndoStack ?? [];
+          if (undo.length === 0 || blockedByChunkTabs([activeFile.id])) return;
+          const roots = rereadChunkTabs(activeFile.id, undo[undo.length - 1]);
+          if (!roots) return;
+          const regionRedoStack = [...(activeFile.regionRedoStack ?? []), activeFile.region];
+          setFiles(prev => replaceRegion(prev, activeFile.id, undo[undo.length - 1], roots, { regionUndoStack: undo.slice(0, -1), regionRedoStack }));
+          return;
+      }
       if (!activeFile || activeFile.undoStack.length === 0) return;
       const prevRoot = activeFile.undoStack[activeFile.undoStack.length - 1];
       const newUndo = activeFile.undoStack.slice(0, -1);
@@ -53,9 +169,18 @@ const App: React.FC = () => {
       setFiles(prev => prev.map(f => f.id === activeFile.id ? {
           ...f, root: prevRoot, undoStack: newUndo, redoStack: newRedo, isModified: true
       } : f));
-  }, [activeFile]);
+  }, [activeFile, files]);
 
   const handleRedo = useCallback(() => {
+      if (activeFile?.region) {
+          const redo = activeFile.regionRedoStack ?? [];
+          if (redo.length === 0 || blockedByChunkTabs([activeFile.id])) return;
+          const roots = rereadChunkTabs(activeFile.id, redo[redo.length - 1]);
+          if (!roots) return;
+          const regionUndoStack = [...(activeFile.regionUndoStack ?? []), activeFile.region];
+          setFiles(prev => replaceRegion(prev, activeFile.id, redo[redo.length - 1], roots, { regionUndoStack, regionRedoStack: redo.slice(0, -1) }));
+          return;
+      }
       if (!activeFile || activeFile.redoStack.length === 0) return;
       const nextRoot = activeFile.redoStack[activeFile.redoStack.length - 1];
       const newRedo = activeFile.redoStack.slice(0, -1);
@@ -64,7 +189,36 @@ const App: React.FC = () => {
       setFiles(prev => prev.map(f => f.id === activeFile.id ? {
           ...f, root: nextRoot, undoStack: newUndo, redoStack: newRedo, isModified: true
       } : f));
-  }, [activeFile]);
+  }, [activeFile, files]);
+
+  // --- Search ---
+  // One index per open file, it survives edits and only rescans what changed
+  const searchIndexes = useRef(new Map<string, SearchIndex>());
+  const [searchCursor, setSearchCursor] = useState(-1);
+  const [showSearchResults, setShowSearchResults] = useState(false);
+
+  const searchHits = useMemo(() => {
+      if (!activeFile || activeFile.region || !searchTerm) return [];
+      let index = searchIndexes.current.get(activeFile.id);
+      if (!index) {
+          index = new SearchIndex();
+          searchIndexes.current.set(activeFile.id, index);
+      }
+      return index.search(activeFile.root, searchTerm);
+  }, [activeFile?.id, activeFile?.root, searchTerm]);
+
+  useEffect(() => setSearchCursor(-1), [searchTerm, activeFileId]);
+
+  const goToHit = (index: number) => {
+      setSearchCursor(index);
+      revealTags([searchHits[index].tag]);
+  };
+
+  const stepSearch = useCallback((direction: 1 | -1) => {
+      if (searchHits.length === 0) return;
+      const n = searchHits.length;
+      goToHit(searchCursor < 0 ? (direction > 0 ? 0 : n - 1) : (searchCursor + direction + n) % n);
+  }, [searchHits, searchCursor]);
 
   // --- Keyboard Shortcuts ---
   useEffect(() => {
@@ -76,60 +230,331 @@ const App: React.FC = () => {
           } else if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
               e.preventDefault();
               handleRedo();
+          } else if ((e.ctrlKey || e.metaKey) && e.key === 'h') {
+              e.preventDefault();
+              setShowFindReplace(v => !v);
+          } else if (e.key === 'F3') {
+              e.preventDefault();
+              stepSearch(e.shiftKey ? -1 : 1);
           }
       };
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo]);
+  }, [handleUndo, handleRedo, stepSearch]);
 
   // --- File Operations ---
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
+  // `path` is the location inside an opened folder; `focus` switches to the first new tab
+  const openFiles = async (sources: { file: File; path?: string }[], focus = false) => {
       const newFiles: NBTFile[] = [];
-      for (let i = 0; i < e.target.files.length; i++) {
-        const file = e.target.files[i];
+      for (const { file, path } of sources) {
         try {
-          const { root, isCompressed } = await NBTParser.parse(file);
+          if (file.name.toLowerCase() === USERCACHE_FILENAME) {
+            await loadUserCache(file);
+            continue;
+          }
+          if (/\.(jar|zip)$/i.test(file.name)) {
+            await loadTexturePacks([file]);
+            continue;
+          }
+          if (isRegionFilename(file.name)) {
+            newFiles.push({
+              id: crypto.randomUUID(),
+              filename: file.name,
+              relativePath: path,
+              root: { type: TagType.Compound, name: '', value: [] },
+              originalRoot: { type: TagType.Compound, name: '', value: [] },
+              compression: 'none',
+              format: JAVA_FORMAT,
+              isModified: false,
+              undoStack: [],
+              redoStack: [],
+              region: RegionParser.parse(await file.arrayBuffer(), file.name)
+            });
+            continue;
+          }
+          const parse = parseInWorker(file, (done, total) => setTask(t => t && { ...t, done, total }));
+          setTask({ label: `解析 ${file.name}`, done: 0, total: file.size, cancel: parse.cancel });
+          const { root, compression, gzipHeader, format } = await parse.promise;
           newFiles.push({
             id: crypto.randomUUID(),
             filename: file.name,
+            relativePath: path,
             root,
-            isCompressed,
+            originalRoot: root,
+            compression,
+            gzipHeader,
+            format,
             isModified: false,
             undoStack: [],
             redoStack: []
           });
         } catch (err) {
+          if (isCancelled(err)) break; // Cancelling one file stops the rest of the batch
           console.error(err);
           alert(`無法解析 ${file.name}`);
         }
       }
+      setTask(null);
       setFiles(prev => [...prev, ...newFiles]);
-      if (newFiles.length > 0 && !activeFileId) setActiveFileId(newFiles[0].id);
+      if (newFiles.length > 0 && (focus || !activeFileId)) setActiveFileId(newFiles[0].id);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) openFiles(Array.from(e.target.files as ArrayLike<File>, file => ({ file })));
+    e.target.value = '';
+  };
+
+  // --- Workspace ---
+  const openWorkspace = (opened: Workspace) => {
+      setWorkspace(opened);
+      if (opened.usercache) loadUserCache(opened.usercache);
+  };
+
+  const handleFolderUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      const opened = workspaceFromFileList(e.target.files);
+      if (opened) openWorkspace(opened);
+    }
+    e.target.value = '';
+  };
+
+  const openWorkspaceEntry = (entry: WorkspaceEntry) => {
+      const existing = files.find(f => f.relativePath === entry.path && !f.chunkOf);
+      if (existing) setActiveFileId(existing.id);
+      else openFiles([{ file: entry.file, path: entry.path }], true);
+  };
+
+  // --- Player names ---
+  // Merged into what is already known, so a second cache only adds players
+  const loadUserCache = async (file: File) => {
+      try {
+          const loaded = parseUserCache(await file.text());
+          setUserCache(prev => new Map([...prev, ...loaded]));
+      } catch (e) {
+          console.error(e);
+          alert(`無法讀取 ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  const loadTexturePacks = async (sources: File[]) => {
+      for (const file of sources) {
+          try {
+              const pack = loadTexturePack(file.name, await file.arrayBuffer());
+              setTexturePacks(prev => [...prev, pack]);
+          } catch (e) {
+              console.error(e);
+              alert(`無法載入材質包 ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+          }
+      }
+  };
+
+  const clearTexturePacks = () => {
+      texturePacks.forEach(p => p.dispose());
+      setTexturePacks([]);
+  };
+
+  const playerMatches = useMemo(() => findPlayers(userCache, searchTerm).slice(0, 8), [userCache, searchTerm]);
+
+  // Prefers a tab that is already open, then the workspace; the live .dat wins over .dat_old
+  const findPlayerFile = (uuid: string) => {
+      const shortest = (a: string, b: string) => a.length - b.length;
+      const tab = files
+          .filter(f => !f.chunkOf && uuidFromFilename(f.filename) === uuid)
+          .sort((a, b) => shortest(a.filename, b.filename))[0];
+      const entry = tab ? undefined : (workspace?.entries ?? [])
+          .filter(e => uuidFromFilename(e.file.name) === uuid)
+          .sort((a, b) => shortest(a.path, b.path))[0];
+      return { tab, entry };
+  };
+
+  const openPlayer = (uuid: string) => {
+      const { tab, entry } = findPlayerFile(uuid);
+      if (tab) setActiveFileId(tab.id);
+      else if (entry) openWorkspaceEntry(entry);
+      else return;
+      setSearchTerm('');
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+      e.preventDefault();
+      setDragActive(false);
+      try {
+          const { files: loose, workspace: dropped } = await readDroppedItems(e.dataTransfer);
+          if (dropped) openWorkspace(dropped);
+          if (loose.length > 0) openFiles(loose.map(file => ({ file })));
+      } catch (err) {
+          console.error(err);
+          alert("無法讀取拖放的檔案");
+      }
+  };
+
+  // Chunk tabs save into their region tab instead of downloading
+  const commitChunk = (file: NBTFile) => {
+    const { regionFileId, index } = file.chunkOf!;
+    const regionFile = files.find(f => f.id === regionFileId);
+    const chunk = regionFile?.region?.chunks[index];
+    if (!regionFile || !chunk) {
+        alert("所屬的區域檔已關閉，無法儲存此區塊。");
+        return;
+    }
+    try {
+        const chunks = [...regionFile.region!.chunks];
+        chunks[index] = RegionWriter.encodeChunk(chunk, file.root);
+        setFiles(prev => prev.map(f => {
+            // The chunk tab already shows the committed root, so it isn't re-read like other region changes
+            if (f.id === regionFileId) {
+                const regionUndoStack = [...(f.regionUndoStack ?? []), f.region!].slice(-50);
+                return { ...f, region: { ...f.region!, chunks }, isModified: true, regionUndoStack, regionRedoStack: [] };
+            }
+            if (f.id === file.id) return { ...f, originalRoot: file.root, isModified: false };
+            return f;
+        }));
+    } catch (e) { console.error(e); alert("區塊寫入失敗"); }
+  };
+
+  const handleOpenChunk = (regionFile: NBTFile, index: number) => {
+    const existing = files.find(f => f.chunkOf?.regionFileId === regionFile.id && f.chunkOf.index === index);
+    if (existing) {
+        setActiveFileId(existing.id);
+        return;
+    }
+    const chunk = regionFile.region!.chunks[index]!;
+    try {
+        const root = RegionParser.readChunk(chunk);
+        const newFile: NBTFile = {
+            id: crypto.randomUUID(),
+            filename: `${regionFile.filename} [${chunk.x}, ${chunk.z}]`,
+            root,
+            originalRoot: root,
+            compression: 'none',
+            format: JAVA_FORMAT,
+            isModified: false,
+            undoStack: [],
+            redoStack: [],
+            chunkOf: { regionFileId: regionFile.id, index }
+        };
+        setFiles(prev => [...prev, newFile]);
+        setActiveFileId(newFile.id);
+    } catch (e) {
+        console.error(e);
+        alert(`無法解析區塊 [${chunk.x}, ${chunk.z}]`);
+    }
+  };
+
+  // Region tabs fold in chunk tabs that were edited but not yet saved back
+  const foldChunkTabs = (file: NBTFile) => {
+      let region = file.region!;
+      const committed = files.filter(f => f.chunkOf?.regionFileId === file.id && f.isModified);
+      committed.forEach(f => {
+          const chunks = [...region.chunks];
+          chunks[f.chunkOf!.index] = RegionWriter.encodeChunk(chunks[f.chunkOf!.index]!, f.root);
+          region = { ...region, chunks };
+      });
+      return { region, committed };
+  };
+
+  // Without options the file is written back the way it was loaded
+  const handleSaveFile = async (file: NBTFile, options?: SaveOptions) => {
+    if (file.chunkOf) {
+        commitChunk(file);
+        return;
+    }
+    const filename = options?.filename ?? file.filename;
+    try {
+        if (file.region) {
+            const { region, committed } = foldChunkTabs(file);
+            downloadBlob(new Blob([RegionWriter.write(region)], { type: 'application/octet-stream' }), filename);
+            setFiles(prev => prev.map(f => {
+                if (f.id === file.id) return { ...f, region, filename, relativePath: renamePath(f.relativePath, filename), isModified: false };
+                if (committed.some(c => c.id === f.id && c.root === f.root)) return { ...f, originalRoot: f.root, isModified: false };
+                return f;
+            }));
+            return;
+        }
+
+        const compression = options?.compression ?? file.compression;
+        const gzipHeader = renameGzipHeader(file.gzipHeader, filename);
+        const write = writeInWorker(file.root, compression, file.format, { level: options?.level, gzipHeader },
+            (done, total) => setTask(t => t && { ...t, done, total }));
+        setTask({ label: `儲存 ${filename}`, done: 0, total: 1, cancel: write.cancel });
+        const bytes = await write.promise;
+        downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), filename);
+        // Edits made while the worker was busy keep the tab marked as modified
+        setFiles(prev => prev.map(f => f.id === file.id ? {
+            ...f, originalRoot: file.root, isModified: f.root !== file.root, filename, relativePath: renamePath(f.relativePath, filename), compression, gzipHeader
+        } : f));
+    } catch (e) {
+        if (isCancelled(e)) return;
+        console.error(e);
+        alert(`存檔失敗: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+        setTask(null);
     }
   };
 
-  const handleSaveFile = (file: NBTFile) => {
+  // Tabs "save all" would write: modified files, plus regions whose chunk tabs were edited
+  const saveAllCandidates = files.filter(f => !f.chunkOf && (f.isModified || (f.region && files.some(c => c.chunkOf?.regionFileId === f.id && c.isModified))));
+
+  // Every tab is written with its own compression, then packed into one zip download
+  const handleSaveAll = async (fileIds: string[], archiveName: string): Promise<ArchiveSummaryEntry[] | null> => {
+    const targets = saveAllCandidates.filter(f => fileIds.includes(f.id));
+    const entries: ZipEntry[] = [];
+    const summary: ArchiveSummaryEntry[] = [];
+    const saved: { file: NBTFile; region?: NBTFile['region']; committed: NBTFile[] }[] = [];
+    const usedPaths = new Set<string>();
     try {
-        const bytes = NBTWriter.write(file.root, file.isCompressed);
-        const blob = new Blob([bytes], { type: 'application/octet-stream' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = file.filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        setFiles(files.map(f => f.id === file.id ? { ...f, isModified: false } : f));
-    } catch (e) { console.error(e); alert("存檔失敗"); }
+        for (const [i, file] of targets.entries()) {
+            let bytes: Uint8Array;
+            let region: NBTFile['region'];
+            let committed: NBTFile[] = [];
+            if (file.region) {
+                ({ region, committed } = foldChunkTabs(file));
+                bytes = RegionWriter.write(region);
+            } else {
+                const write = writeInWorker(file.root, file.compression, file.format, { gzipHeader: file.gzipHeader },
+                    (done, total) => setTask(t => t && { ...t, done, total }));
+                setTask({ label: `儲存 ${file.filename} (${i + 1}/${targets.length})`, done: 0, total: 1, cancel: write.cancel });
+                bytes = await write.promise;
+            }
+            // Two tabs may share a name when they came from different places
+            const base = file.relativePath ?? file.filename;
+            const dot = base.lastIndexOf('.');
+            const hasExt = dot > base.lastIndexOf('/') + 1;
+            let path = base;
+            for (let n = 2; usedPaths.has(path); n++) path = hasExt ? `${base.slice(0, dot)} (${n})${base.slice(dot)}` : `${base} (${n})`;
+            usedPaths.add(path);
+            entries.push({ path, data: bytes });
+            summary.push({ fileId: file.id, filename: file.filename, path, size: bytes.length });
+            saved.push({ file, region, committed });
+        }
+        downloadBlob(new Blob([ZipWriter.write(entries)], { type: 'application/zip' }), archiveName);
+    } catch (e) {
+        if (isCancelled(e)) return null;
+        console.error(e);
+        alert(`存檔失敗: ${e instanceof Error ? e.message : String(e)}`);
+        return null;
+    } finally {
+        setTask(null);
+    }
+
+    // Same bookkeeping as saving each tab on its own
+    setFiles(prev => prev.map(f => {
+        const entry = saved.find(s => s.file.id === f.id);
+        if (entry?.region) return { ...f, region: entry.region, isModified: false };
+        if (entry) return { ...f, originalRoot: entry.file.root, isModified: f.root !== entry.file.root };
+        if (saved.some(s => s.committed.some(c => c.id === f.id && c.root === f.root))) return { ...f, originalRoot: f.root, isModified: false };
+        return f;
+    }));
+    return summary;
   };
 
   const closeFile = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    const newFiles = files.filter(f => f.id !== id);
+    // Chunk tabs can't be saved without their region, close them along with it
+    const newFiles = files.filter(f => f.id !== id && f.chunkOf?.regionFileId !== id);
     setFiles(newFiles);
     if (activeFileId === id) setActiveFileId(newFiles.length > 0 ? newFiles[newFiles.length - 1].id : null);
+    searchIndexes.current.delete(id);
   };
 
   const updateActiveFileRoot = (newRoot: NBTTag) => {
@@ -138,59 +563,184 @@ const App: React.FC = () => {
   };
 
   // --- Selection Logic ---
-  const handleSelect = (path: string, type: 'single' | 'toggle' | 'range') => {
+  const handleSelect = (id: NodeId, type: 'single' | 'toggle' | 'range') => {
       if (type === 'single') {
-          setSelectedPaths(new Set([path]));
-          setLastClickedPath(path);
+          setSelectedIds(new Set([id]));
+          setLastClickedId(id);
       } else if (type === 'toggle') {
-          const newSet = new Set(selectedPaths);
-          if (newSet.has(path)) newSet.delete(path);
-          else newSet.add(path);
-          setSelectedPaths(newSet);
-          setLastClickedPath(path);
-      } else if (type === 'range' && activeFile && lastClickedPath) {
+          const newSet = new Set(selectedIds);
+          if (newSet.has(id)) newSet.delete(id);
+          else newSet.add(id);
+          setSelectedIds(newSet);
+          setLastClickedId(id);
+      } else if (type === 'range' && activeFile && lastClickedId !== null) {
           // Flatten tree to find range
-          const allPaths = flattenTree(activeFile.root);
-          const startIdx = allPaths.indexOf(lastClickedPath);
-          const endIdx = allPaths.indexOf(path);
+          const allIds = flattenTree(activeFile.root);
+          const startIdx = allIds.indexOf(lastClickedId);
+          const endIdx = allIds.indexOf(id);
           
           if (startIdx !== -1 && endIdx !== -1) {
               const min = Math.min(startIdx, endIdx);
               const max = Math.max(startIdx, endIdx);
-              const range = allPaths.slice(min, max + 1);
-              const newSet = new Set(selectedPaths);
+              const range = allIds.slice(min, max + 1);
+              const newSet = new Set(selectedIds);
               range.forEach(p => newSet.add(p));
-              setSelectedPaths(newSet);
+              setSelectedIds(newSet);
           }
       }
   };
 
   // --- Bulk Actions ---
   const triggerExpand = (type: ExpandSignal['type']) => {
-      setExpandSignal({ id: Date.now(), type, targets: selectedPaths });
+      setExpandSignal({ id: Date.now(), type, targets: selectedIds });
   };
 
+  // Command generation works on exactly one selected compound
+  const selectedCompound = useMemo(() => {
+      if (!activeFile || activeFile.region || selectedIds.size !== 1) return null;
+      const found = findById(activeFile.root, selectedIds.values().next().value!);
+      return found && found.tag.type === TagType.Compound ? found : null;
+  }, [activeFile, selectedIds]);
+
   const deleteSelected = () => {
-      if (!activeFile || selectedPaths.size === 0) return;
-      if (!confirm(`確定刪除 ${selectedPaths.size} 個項目?`)) return;
+      if (!activeFile || selectedIds.size === 0) return;
+      if (!confirm(`確定刪除 ${selectedIds.size} 個項目?`)) return;
       
-      const newRoot = deleteNodesByPaths(activeFile.root, selectedPaths);
+      const newRoot = deleteNodesByIds(activeFile.root, selectedIds);
       updateActiveFileRoot(newRoot);
-      setSelectedPaths(new Set());
+      setSelectedIds(new Set());
   };
 
   const invertSelection = () => {
       if (!activeFile) return;
-      const allPaths = flattenTree(activeFile.root);
-      const newSet = new Set<string>();
-      allPaths.forEach(p => {
-          if (p !== 'root' && !selectedPaths.has(p)) newSet.add(p);
+      const rootId = getNodeId(activeFile.root);
+      const newSet = new Set<NodeId>();
+      flattenTree(activeFile.root).forEach(id => {
+          if (id !== rootId && !selectedIds.has(id)) newSet.add(id);
       });
-      setSelectedPaths(newSet);
+      setSelectedIds(newSet);
+  };
+
+  // --- NBT Path Queries ---
+  const queryPath = (path: string): PathMatch[] | null => {
+      if (!activeFile) return null;
+      try {
+          const matches = NBTPath.evaluate(activeFile.root, path);
+          if (matches.length === 0) {
+              alert("找不到符合路徑的節點。");
+              return null;
+          }
+          return matches;
+      } catch (e) {
+          alert(`路徑錯誤: ${e instanceof Error ? e.message : String(e)}`);
+          return null;
+      }
+  };
+
+  const revealTags = (tags: NBTTag[]) => {
+      const ids = new Set(tags.map(getNodeId));
+      setSelectedIds(ids);
+      setLastClickedId(getNodeId(tags[0]));
+      setExpandSignal({ id: Date.now(), type: 'reveal', targets: ids });
+  };
+
+  const handlePathJump = (path: string) => {
+      const matches = queryPath(path);
+      if (matches) revealTags([matches[0].tag]);
+  };
+
+  const handlePathSelect = (path: string) => {
+      const matches = queryPath(path);
+      if (matches) revealTags(matches.map(m => m.tag));
+  };
+
+  // Opens the matches as a new tab: a single match becomes the root, several are wrapped in a list (or a compound if their types differ)
+  const handlePathExtract = (path: string) => {
+      const matches = queryPath(path);
+      if (!activeFile || !matches) return;
+      const tags = matches.map(m => m.tag);
+      let root: NBTTag;
+      if (tags.length === 1) {
+          root = { ...tags[0], name: '' };
+      } else if (tags.every(t => t.type === tags[0].type)) {
+          root = { type: TagType.List, name: '', value: { itemType: tags[0].type, list: tags.map(t => ({ ...t, name: null })) } };
+      } else {
+          root = { type: TagType.Compound, name: '', value: tags.map((t, i) => ({ ...t, name: String(i) })) };
+      }
+      const newFile: NBTFile = {
+          id: crypto.randomUUID(),
+          filename: `${activeFile.filename.replace(/\.[^.]+$/, '')}_extract.nbt`,
+          root,
+          originalRoot: root,
+          compression: activeFile.compression,
+          format: activeFile.format,
+          isModified: true,
+          undoStack: [],
+          redoStack: []
+      };
+      setFiles(prev => [...prev, newFile]);
+      setActiveFileId(newFile.id);
+  };
+
+  // The merge result starts its own history; it is unsaved until downloaded
+  const handleMergeCreate = (root: NBTTag, source: NBTFile) => {
+      const dot = source.filename.lastIndexOf('.');
+      const filename = dot > 0 ? `${source.filename.slice(0, dot)}_merged${source.filename.slice(dot)}` : `${source.filename}_merged`;
+      const newFile: NBTFile = {
+          id: crypto.randomUUID(),
+          filename,
+          root,
+          originalRoot: root,
+          compression: source.compression,
+          gzipHeader: renameGzipHeader(source.gzipHeader, filename),
+          format: source.format,
+          isModified: true,
+          undoStack: [],
+          redoStack: []
+      };
+      setFiles(prev => [...prev, newFile]);
+      setActiveFileId(newFile.id);
+      setShowMerge(false);
+  };
+
+  // Every file gets its own undo step, so one file can be reverted without the rest
+  const handleBatchApply = (results: { fileId: string; root: NBTTag }[]) => {
+      results.forEach(r => pushHistory(r.fileId, r.root));
+  };
+
+  // Trees and regions get an undo step each; renames are applied in place
+  const handleMigrationApply = (reports: MigrationReport[], rows: MappingRow[]): boolean => {
+      if (!pushRegionHistory(reports)) return false;
+      reports.forEach(r => { if (r.root) pushHistory(r.fileId, r.root); });
+      setFiles(prev => prev.map(f => {
+          const report = reports.find(r => r.fileId === f.id);
+          if (!report?.rename) return f;
+          return { ...f, filename: report.rename.filename, relativePath: report.rename.relativePath, isModified: true };
+      }));
+      // Renamed player files keep showing their owner's name
+      const named = rows.filter(r => r.name !== null);
+      if (named.length > 0) setUserCache(prev => new Map([...prev, ...named.map(r => [r.to, r.name!] as [string, string])]));
+      return true;
+  };
+
+  const handleItemUpgradeApply = (reports: ItemUpgradeReport[]): boolean => {
+      if (!pushRegionHistory(reports)) return false;
+      reports.forEach(r => { if (r.root) pushHistory(r.fileId, r.root); });
+      return true;
+  };
+
+  const handleBatchExport = (fileIds: string[]) => {
+      setShowBatch(false);
+      setSaveAllSelection(fileIds);
   };
 
   return (
-    <div className="flex flex-col h-screen bg-gray-950 text-gray-200 font-sans">
+    <div
+      className="flex flex-col h-screen bg-gray-950 text-gray-200 font-sans"
+      onDragOver={(e) => { if (!e.dataTransfer.types.includes('Files')) return; e.preventDefault(); setDragActive(true); }}
+      onDragLeave={(e) => { if (!e.relatedTarget) setDragActive(false); }}
+      onDrop={handleDrop}
+    >
       {/* Header */}
       <header className="h-14 bg-gray-900 border-b border-gray-800 flex items-center px-4 justify-between select-none shrink-0 z-20">
         <div className="flex items-center gap-4">
@@ -203,16 +753,60 @@ const App: React.FC = () => {
             <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white px-3 py-2 rounded hover:bg-gray-800">
                 <FileUp size={18} /> 開啟
             </button>
+            <button onClick={() => folderInputRef.current?.click()} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white px-3 py-2 rounded hover:bg-gray-800" title="開啟整個世界資料夾，也可以直接拖放資料夾">
+                <FolderInput size={18} /> 開啟資料夾
+            </button>
+            <button onClick={() => setShowPasteImport(true)} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white px-3 py-2 rounded hover:bg-gray-800" title="從十六進位 / Base64 匯入">
+                <ClipboardPaste size={18} /> 貼上
+            </button>
             <button onClick={() => activeFile && handleSaveFile(activeFile)} disabled={!activeFile} className={`flex items-center gap-2 text-sm px-3 py-2 rounded ${!activeFile ? 'text-gray-600' : 'text-gray-300 hover:text-white hover:bg-gray-800'}`}>
                 <Save size={18} /> 儲存
             </button>
+            <button onClick={() => setShowSaveAs(true)} disabled={!activeFile || !!activeFile.chunkOf} className={`flex items-center gap-2 text-sm px-3 py-2 rounded ${!activeFile || activeFile.chunkOf ? 'text-gray-600' : 'text-gray-300 hover:text-white hover:bg-gray-800'}`}>
+                <SaveAll size={18} /> 另存新檔
+            </button>
+            <button onClick={() => setSaveAllSelection(saveAllCandidates.map(f => f.id))} disabled={saveAllCandidates.length === 0} className={`flex items-center gap-2 text-sm px-3 py-2 rounded ${saveAllCandidates.length === 0 ? 'text-gray-600' : 'text-gray-300 hover:text-white hover:bg-gray-800'}`} title="將所有已修改的分頁打包成一個 ZIP 下載">
+                <Archive size={18} /> 全部儲存
+            </button>
             <input type="file" multiple ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+            <input type="file" ref={folderInputRef} className="hidden" onChange={handleFolderUpload} {...{ webkitdirectory: '' }} />
         </div>
         
-        {activeFile && (
-            <div className="flex-1 max-w-md mx-4 relative">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
-                <input type="text" placeholder="搜尋..." className="w-full bg-gray-950 border border-gray-700 rounded-md py-1.5 pl-10 pr-4 text-sm text-gray-200 focus:border-blue-500 outline-none" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
+        {((activeFile && !activeFile.region) || userCache.size > 0) && (
+            <div className="flex-1 max-w-3xl mx-4 flex items-center gap-3">
+                <div className="flex-1 relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
+                    <input type="text" placeholder={userCache.size > 0 ? "搜尋 (也可輸入玩家名稱)..." : "搜尋..."} className="w-full bg-gray-950 border border-gray-700 rounded-md py-1.5 pl-10 pr-32 text-sm text-gray-200 focus:border-blue-500 outline-none" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} onFocus={() => setSearchFocused(true)} onBlur={() => setSearchFocused(false)} onKeyDown={(e) => { if (e.key === 'Enter') stepSearch(e.shiftKey ? -1 : 1); }} />
+                    {searchFocused && playerMatches.length > 0 && (
+                        <div className="absolute left-0 right-0 top-full mt-1 bg-gray-900 border border-gray-700 rounded-md shadow-xl py-1 text-sm">
+                            {playerMatches.map(player => {
+                                const { tab, entry } = findPlayerFile(player.uuid);
+                                return (
+                                    // mousedown fires before the input blurs and hides the list
+                                    <div key={player.uuid} onMouseDown={(e) => { e.preventDefault(); openPlayer(player.uuid); }} className={`flex items-center gap-2 px-3 py-1 ${tab || entry ? 'cursor-pointer hover:bg-gray-800' : 'opacity-50'}`}>
+                                        <User size={14} className="text-gray-500 shrink-0" />
+                                        <span className="text-gray-200">{player.name}</span>
+                                        <span className="font-mono text-xs text-gray-500 truncate">{player.uuid}</span>
+                                        <span className="ml-auto text-xs text-gray-500 shrink-0">{tab ? '已開啟' : entry ? '工作區' : '未載入'}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {searchTerm && activeFile && !activeFile.region && (
+                        <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5 text-gray-400">
+                            <span className="text-xs font-mono px-1">{searchCursor >= 0 ? searchCursor + 1 : 0}/{searchHits.length}</span>
+                            <button onClick={() => stepSearch(-1)} disabled={searchHits.length === 0} title="上一個 (Shift+F3)" className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-40"><ChevronUp size={14} /></button>
+                            <button onClick={() => stepSearch(1)} disabled={searchHits.length === 0} title="下一個 (F3)" className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-40"><ChevronDown size={14} /></button>
+                            <button onClick={() => setShowSearchResults(v => !v)} title="結果清單" className={`p-1 rounded hover:bg-gray-800 hover:text-white ${showSearchResults ? 'text-blue-400' : ''}`}><ListTree size={14} /></button>
+                        </div>
+                    )}
+                </div>
+                {activeFile && !activeFile.region && (
+                    <div className="flex-1">
+                        <PathQueryBar onJump={handlePathJump} onSelect={handlePathSelect} onExtract={handlePathExtract} />
+                    </div>
+                )}
             </div>
         )}
 
@@ -231,7 +825,11 @@ const App: React.FC = () => {
       <div className="flex bg-gray-900 overflow-x-auto border-b border-gray-800 scrollbar-hide shrink-0">
         {files.map(file => (
             <div key={file.id} onClick={() => setActiveFileId(file.id)} className={`group flex items-center min-w-[120px] max-w-[200px] px-3 py-2 text-sm border-r border-gray-800 cursor-pointer ${activeFileId === file.id ? 'bg-gray-800 text-white border-t-2 border-t-blue-500' : 'bg-gray-900 text-gray-500 hover:bg-gray-850'}`}>
-                <span className="truncate flex-1">{file.filename}</span>
+                <span className="truncate flex-1" title={file.relativePath ?? file.filename}>
+                    {playerNameFor(file.filename, userCache) ?? file.filename}
+                    {playerNameFor(file.filename, userCache) && <span className="text-gray-500 text-xs ml-1">{file.filename}</span>}
+                </span>
+                {file.format.littleEndian && <span className="text-[9px] text-emerald-300 bg-emerald-500/20 border border-emerald-500/30 px-1 rounded ml-1 shrink-0" title="Bedrock (little-endian)">基岩</span>}
                 {file.isModified && <div className="w-2 h-2 rounded-full bg-blue-500 ml-2"></div>}
                 <button onClick={(e) => closeFile(e, file.id)} className="ml-2 opacity-0 group-hover:opacity-100 p-0.5 hover:bg-gray-700 rounded text-gray-400"><X size={12} /></button>
             </div>
@@ -239,10 +837,20 @@ const App: React.FC = () => {
       </div>
 
       <div className="flex-1 flex overflow-hidden">
+        {workspace && (
+            <WorkspaceExplorer workspace={workspace} files={files} activeFileId={activeFileId} userCache={userCache} onOpen={openWorkspaceEntry} onClose={() => setWorkspace(null)} />
+        )}
+
         {/* Left Vertical Sidebar */}
-        {activeFile && (
+        {activeFile && !activeFile.region && (
             <div className="w-12 bg-gray-900 border-r border-gray-800 flex flex-col items-center py-4 gap-2 shrink-0 overflow-y-auto scrollbar-hide">
                 <SidebarBtn icon={<User size={20} />} title="玩家預覽" onClick={() => setShowPreview(true)} />
+                <SidebarBtn icon={<GitCompare size={20} />} title="比較差異" onClick={() => setShowDiff(true)} />
+                <SidebarBtn icon={<Replace size={20} />} title="尋找與取代 (Ctrl+H)" onClick={() => setShowFindReplace(v => !v)} />
+                <SidebarBtn icon={<GitMerge size={20} />} title="三方合併" onClick={() => setShowMerge(true)} disabled={files.filter(f => !f.region).length < 3} />
+                <SidebarBtn icon={<Layers size={20} />} title="批次處理" onClick={() => setShowBatch(true)} />
+                <SidebarBtn icon={<Fingerprint size={20} />} title="UUID 遷移 (正版/離線)" onClick={() => setShowMigration(true)} />
+                <SidebarBtn icon={<PackageCheck size={20} />} title="升級物品格式 (1.20.5+)" onClick={() => setShowItemUpgrade(true)} />
                 <div className="w-6 h-px bg-gray-700 my-1"></div>
                 <SidebarBtn icon={<ChevronsDown size={20} />} title="全部展開" onClick={() => triggerExpand('expand_all')} />
                 <SidebarBtn icon={<ChevronsUp size={20} />} title="全部摺疊" onClick={() => triggerExpand('collapse_all')} />
@@ -251,30 +859,42 @@ const App: React.FC = () => {
                 <SidebarBtn icon={<RotateCw size={20} />} title="重做 (Ctrl+Y)" onClick={handleRedo} disabled={activeFile.redoStack.length === 0} />
                 <div className="w-6 h-px bg-gray-700 my-1"></div>
                 {/* Selection Actions */}
-                <SidebarBtn icon={<FolderOpen size={20} />} title="展開選中" onClick={() => triggerExpand('expand_selected')} disabled={selectedPaths.size === 0} />
-                <SidebarBtn icon={<FolderClosed size={20} />} title="摺疊選中" onClick={() => triggerExpand('collapse_selected')} disabled={selectedPaths.size === 0} />
-                <SidebarBtn icon={<Trash2 size={20} />} title="刪除選中" onClick={deleteSelected} disabled={selectedPaths.size === 0} danger />
+                <SidebarBtn icon={<FolderOpen size={20} />} title="展開選中" onClick={() => triggerExpand('expand_selected')} disabled={selectedIds.size === 0} />
+                <SidebarBtn icon={<FolderClosed size={20} />} title="摺疊選中" onClick={() => triggerExpand('collapse_selected')} disabled={selectedIds.size === 0} />
+                <SidebarBtn icon={<Terminal size={20} />} title="產生指令 (/give、/summon、/setblock、/data)" onClick={() => setShowCommand(true)} disabled={!selectedCompound} />
+                <SidebarBtn icon={<Trash2 size={20} />} title="刪除選中" onClick={deleteSelected} disabled={selectedIds.size === 0} danger />
                 <div className="w-6 h-px bg-gray-700 my-1"></div>
                 <SidebarBtn icon={<CheckSquare size={20} />} title="反轉選取" onClick={invertSelection} />
-                <SidebarBtn icon={<Square size={20} />} title="取消選取" onClick={() => setSelectedPaths(new Set())} disabled={selectedPaths.size === 0} />
+                <SidebarBtn icon={<Square size={20} />} title="取消選取" onClick={() => setSelectedIds(new Set())} disabled={selectedIds.size === 0} />
+            </div>
+        )}
+        {activeFile?.region && (
+            <div className="w-12 bg-gray-900 border-r border-gray-800 flex flex-col items-center py-4 gap-2 shrink-0">
+                <SidebarBtn icon={<RotateCcw size={20} />} title="復原 (Ctrl+Z)" onClick={handleUndo} disabled={!activeFile.regionUndoStack?.length} />
+                <SidebarBtn icon={<RotateCw size={20} />} title="重做 (Ctrl+Y)" onClick={handleRedo} disabled={!activeFile.regionRedoStack?.length} />
             </div>
         )}
 
         {/* Editor Area */}
-        <div className="flex-1 bg-gray-950 overflow-auto p-4 relative" onClick={() => setSelectedPaths(new Set())}>
-            {activeFile ? (
-                <div className="min-w-fit pb-20">
-                    <NBTNode 
-                        tag={activeFile.root} depth={0} path="root"
-                        onUpdate={(newRoot) => updateActiveFileRoot(newRoot)}
-                        onDelete={() => { if(confirm("無法刪除根目錄。")) closeFile({ stopPropagation: () => {} } as any, activeFile.id); }}
-                        onAdd={() => {}}
-                        searchTerm={searchTerm}
-                        selectedPaths={selectedPaths}
-                        onSelect={handleSelect}
-                        expandSignal={expandSignal}
-                    />
-                </div>
+        <div className="flex-1 bg-gray-950 overflow-auto p-4 relative" onClick={() => setSelectedIds(new Set())}>
+            {activeFile?.region ? (
+                <RegionView
+                    region={activeFile.region}
+                    openChunks={new Set(files.filter(f => f.chunkOf?.regionFileId === activeFile.id).map(f => f.chunkOf!.index))}
+                    onOpenChunk={(index) => handleOpenChunk(activeFile, index)}
+                />
+            ) : activeFile ? (
+                <NBTTreeView
+                    key={activeFile.id}
+                    root={activeFile.root}
+                    onChange={updateActiveFileRoot}
+                    onDeleteRoot={() => { if(confirm("無法刪除根目錄。")) closeFile({ stopPropagation: () => {} } as any, activeFile.id); }}
+                    searchTerm={searchTerm}
+                    searchHits={searchHits}
+                    selectedIds={selectedIds}
+                    onSelect={handleSelect}
+                    expandSignal={expandSignal}
+                />
             ) : (
                 <div className="flex flex-col items-center justify-center h-full text-gray-600">
                     <Box size={64} className="mb-4 opacity-20" />
@@ -283,6 +903,26 @@ const App: React.FC = () => {
                 </div>
             )}
         </div>
+
+        {showSearchResults && searchTerm && activeFile && !activeFile.region && (
+            <SearchResultsPanel
+                root={activeFile.root}
+                hits={searchHits}
+                cursor={searchCursor}
+                onPick={goToHit}
+                onClose={() => setShowSearchResults(false)}
+            />
+        )}
+
+        {showFindReplace && activeFile && !activeFile.region && (
+            <FindReplacePanel
+                root={activeFile.root}
+                selectedIds={selectedIds}
+                onApply={updateActiveFileRoot}
+                onReveal={(tag) => revealTags([tag])}
+                onClose={() => setShowFindReplace(false)}
+            />
+        )}
       </div>
       
       {/* Footer */}
@@ -292,7 +932,82 @@ const App: React.FC = () => {
 
       {/* Preview Modal */}
       {showPreview && activeFile && (
-        <PlayerPreview root={activeFile.root} onClose={() => setShowPreview(false)} />
+        <PlayerPreview root={activeFile.root} playerName={playerNameFor(activeFile.filename, userCache)} onChange={activeFile.region ? undefined : root => pushHistory(activeFile.id, root)} textures={texturePacks} onLoadTextures={loadTexturePacks} onClearTextures={clearTexturePacks} onClose={() => setShowPreview(false)} />
+      )}
+
+      {showDiff && activeFile && !activeFile.region && (
+        <DiffView file={activeFile} files={files} onApply={pushHistory} onClose={() => setShowDiff(false)} />
+      )}
+
+      {showMerge && (
+        <MergeDialog files={files} activeFileId={activeFileId} onCreate={handleMergeCreate} onClose={() => setShowMerge(false)} />
+      )}
+
+      {showBatch && (
+        <BatchDialog files={files} onApply={handleBatchApply} onExport={handleBatchExport} onClose={() => setShowBatch(false)} />
+      )}
+
+      {showMigration && (
+        <UUIDMigrationDialog files={files} userCache={userCache} onApply={handleMigrationApply} onClose={() => setShowMigration(false)} />
+      )}
+
+      {showCommand && selectedCompound && activeFile && (
+        <CommandDialog
+          tag={selectedCompound.tag}
+          path={selectedCompound.indices.length ? NBTPath.format(NBTPath.fromIndices(activeFile.root, selectedCompound.indices)) : '(根目錄)'}
+          onClose={() => setShowCommand(false)}
+        />
+      )}
+
+      {showItemUpgrade && (
+        <ItemUpgradeDialog files={files} onApply={handleItemUpgradeApply} onClose={() => setShowItemUpgrade(false)} />
+      )}
+
+      {showPasteImport && (
+        <PasteImportDialog
+          onClose={() => setShowPasteImport(false)}
+          onImport={({ filename, root, compression, format }) => {
+            const newFile: NBTFile = {
+              id: crypto.randomUUID(),
+              filename,
+              root,
+              originalRoot: root,
+              compression,
+              format,
+              isModified: false,
+              undoStack: [],
+              redoStack: []
+            };
+            setFiles(prev => [...prev, newFile]);
+            setActiveFileId(newFile.id);
+            setShowPasteImport(false);
+          }}
+        />
+      )}
+
+      {dragActive && (
+        <div className="fixed inset-0 z-40 pointer-events-none flex items-center justify-center bg-blue-950/40 border-4 border-dashed border-blue-500/60">
+          <span className="text-lg text-blue-200 bg-gray-900/90 px-6 py-3 rounded shadow-lg">放開以開啟檔案或資料夾</span>
+        </div>
+      )}
+
+      {task && (
+        <TaskProgress label={task.label} done={task.done} total={task.total} onCancel={task.cancel} />
+      )}
+
+      {saveAllSelection && (
+        <SaveAllDialog files={saveAllCandidates} initialSelection={saveAllSelection} onSave={handleSaveAll} onClose={() => setSaveAllSelection(null)} />
+      )}
+
+      {showSaveAs && activeFile && (
+        <SaveAsDialog
+          file={activeFile}
+          onClose={() => setShowSaveAs(false)}
+          onSave={(options) => {
+            handleSaveFile(activeFile, options);
+            setShowSaveAs(false);
+          }}
+        />
       )}
     </div>
   );
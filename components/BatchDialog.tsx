@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { NBTFile, NBTTag } from '../types';
+import { applyBatchRule, BatchRule, BatchChange } from '../utils/batchOps';
+import { NBTPath } from '../utils/nbtPath';
+import { useDryRun, ReportEntry, toggled } from './DryRunReport';
+import { X, Layers, Play, Download } from 'lucide-react';
+
+interface BatchDialogProps {
+  files: NBTFile[];
+  onApply: (results: { fileId: string; root: NBTTag }[]) => void;
+  onExport: (fileIds: string[]) => void;
+  onClose: () => void;
+}
+
+type RuleKind = BatchRule['kind'];
+
+interface FileReport {
+  fileId: string;
+  filename: string;
+  root: NBTTag;
+  changes: BatchChange[];
+  error?: string;
+}
+
+const KIND_LABELS: Record<RuleKind, string> = {
+  delete: '刪除',
+  set: '設定值',
+  rename: '重新命名',
+};
+
+const runRule = (files: NBTFile[], rule: BatchRule): FileReport[] => files.map(f => {
+  try {
+    const { root, changes } = applyBatchRule(f.root, rule);
+    return { fileId: f.id, filename: f.filename, root, changes };
+  } catch (e) {
+    return { fileId: f.id, filename: f.filename, root: f.root, changes: [], error: e instanceof Error ? e.message : String(e) };
+  }
+});
+
+const changedCount = (report: FileReport) => report.changes.filter(c => !c.error).length;
+
+export const BatchDialog: React.FC<BatchDialogProps> = ({ files, onApply, onExport, onClose }) => {
+  const candidates = files.filter(f => !f.region);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(candidates.map(f => f.id)));
+  const [kind, setKind] = useState<RuleKind>('delete');
+  const [path, setPath] = useState('');
+  const [value, setValue] = useState('');
+
+  const rule = (): BatchRule =>
+    kind === 'delete' ? { kind, path } : kind === 'set' ? { kind, path, value } : { kind, path, name: value };
+
+  const targets = candidates.filter(f => selected.has(f.id));
+
+  const { reports, expanded, toggleExpanded, applied, dryRun, apply } = useDryRun(
+    () => runRule(targets, rule()),
+    r => !r.error && changedCount(r) > 0,
+  );
+
+  const handleDryRun = () => {
+    if (!path.trim()) return;
+    try {
+      NBTPath.parse(path);
+    } catch (e) {
+      alert(`路徑錯誤: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    dryRun();
+  };
+
+  const handleApply = () => apply(results => {
+    if (!confirm(`確定對 ${results.length} 個檔案套用「${KIND_LABELS[kind]}」?`)) return false;
+    onApply(results.map(r => ({ fileId: r.fileId, root: r.root })));
+    return true;
+  });
+
+  const affected = reports?.filter(r => changedCount(r) > 0) ?? [];
+  const totalChanges = affected.reduce((n, r) => n + changedCount(r), 0);
+  const inputClass = "bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200 font-mono outline-none focus:border-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] overflow-hidden flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Layers size={20} /> 批次處理</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-64 shrink-0 border-r border-gray-700 flex flex-col text-sm">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700 text-xs text-gray-400">
+              <span>檔案 ({selected.size}/{candidates.length})</span>
+              <span className="flex gap-2">
+                <button onClick={() => setSelected(new Set(candidates.map(f => f.id)))} className="hover:text-white">全選</button>
+                <button onClick={() => setSelected(new Set())} className="hover:text-white">全不選</button>
+              </span>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {candidates.map(f => (
+                <label key={f.id} className="flex items-center gap-2 px-3 py-1 hover:bg-gray-700/50 cursor-pointer text-gray-300">
+                  <input type="checkbox" checked={selected.has(f.id)} onChange={() => setSelected(prev => toggled(prev, f.id))} />
+                  <span className="truncate" title={f.filename}>{f.filename}</span>
+                  {f.isModified && <div className="w-2 h-2 rounded-full bg-blue-500 ml-auto shrink-0"></div>}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col text-sm">
+            <div className="flex items-end gap-3 px-4 py-3 border-b border-gray-700 shrink-0">
+              <label className="flex flex-col gap-1 text-gray-400 text-xs">
+                動作
+                <select value={kind} onChange={e => setKind(e.target.value as RuleKind)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200">
+                  {(Object.keys(KIND_LABELS) as RuleKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-gray-400 text-xs flex-1 min-w-0">
+                NBT 路徑
+                <input value={path} onChange={e => setPath(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') handleDryRun(); }} placeholder={'Inventory[{id:"minecraft:bedrock"}]'} className={inputClass} />
+              </label>
+              {kind !== 'delete' && (
+                <label className="flex flex-col gap-1 text-gray-400 text-xs w-48" title={kind === 'set' ? '數值與字串直接輸入，容器與陣列使用 SNBT' : undefined}>
+                  {kind === 'set' ? '新值' : '新名稱'}
+                  <input value={value} onChange={e => setValue(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') handleDryRun(); }} className={inputClass} />
+                </label>
+              )}
+              <button onClick={handleDryRun} disabled={!path.trim() || targets.length === 0} className="flex items-center gap-2 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40"><Play size={14} /> 試跑</button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              {!reports && applied.length === 0 && <div className="p-4 text-gray-500">選擇檔案並輸入規則後按「試跑」，可先檢視每個檔案會變更的內容。</div>}
+              {!reports && applied.length > 0 && <div className="p-4 text-green-400">已套用到 {applied.length} 個檔案，可用「復原」逐檔還原。</div>}
+              {reports?.map(report => {
+                const count = changedCount(report);
+                const failed = report.changes.length - count;
+                return (
+                  <ReportEntry
+                    key={report.fileId}
+                    open={expanded.has(report.fileId)}
+                    onToggle={() => toggleExpanded(report.fileId)}
+                    expandable={report.changes.length > 0}
+                    summary={<>
+                      <span className="truncate text-gray-200">{report.filename}</span>
+                      <span className="ml-auto text-xs shrink-0">
+                        {report.error ? <span className="text-red-400">{report.error}</span>
+                          : count > 0 ? <span className="text-green-400">{count} 處變更</span>
+                          : <span className="text-gray-500">無符合項目</span>}
+                        {failed > 0 && <span className="text-red-400 ml-2">{failed} 處失敗</span>}
+                      </span>
+                    </>}
+                    count={report.changes.length}
+                    unit="處"
+                    renderItem={i => {
+                      const c = report.changes[i];
+                      return (
+                        <div key={i} className="min-w-0">
+                          <div className="text-orange-300 truncate" title={c.path}>{c.path}</div>
+                          <div className="text-gray-400 truncate">{c.before}</div>
+                          {c.error ? <div className="text-red-400 truncate">{c.error}</div>
+                            : <div className={`truncate ${c.after === null ? 'text-red-300' : 'text-green-300'}`}>→ {c.after ?? '(刪除)'}</div>}
+                        </div>
+                      );
+                    }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-700 text-xs text-gray-400 shrink-0">
+          {reports && <span>{affected.length} / {reports.length} 個檔案受影響 · 共 {totalChanges} 處變更</span>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => onExport(applied)} disabled={applied.length === 0} className="flex items-center gap-2 px-3 py-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40"><Download size={14} /> 匯出受影響檔案</button>
+            <button onClick={handleApply} disabled={affected.length === 0} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">套用</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useMemo } from 'react';
+import { NBTTag } from '../types';
+import { CommandKind, CommandOptions, CommandSyntax, CHAT_LIMIT, COMMAND_BLOCK_LIMIT, commandKindsFor, defaultOptions, generateCommand } from '../utils/commandGen';
+import { X, Terminal, Copy, AlertTriangle } from 'lucide-react';
+
+interface CommandDialogProps {
+  tag: NBTTag;
+  path: string;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<CommandKind, string> = {
+  give: '/give 物品',
+  summon: '/summon 實體',
+  setblock: '/setblock 方塊',
+  data: '/data merge',
+};
+
+const SYNTAX_LABELS: Record<CommandSyntax, string> = {
+  legacy: '1.13 – 1.20.4 (NBT)',
+  components: '1.20.5+ (物品元件)',
+};
+
+export const CommandDialog: React.FC<CommandDialogProps> = ({ tag, path, onClose }) => {
+  const kinds = useMemo(() => commandKindsFor(tag), [tag]);
+  const [kind, setKind] = useState<CommandKind>(kinds[0]);
+  const [options, setOptions] = useState<CommandOptions>(() => defaultOptions(tag));
+
+  const result = useMemo(() => {
+    try {
+      return { ...generateCommand(tag, kind, options), error: null };
+    } catch (e) {
+      return { command: '', warnings: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [tag, kind, options]);
+
+  const setOption = (key: keyof CommandOptions, value: string) => setOptions(prev => ({ ...prev, [key]: value }));
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(result.command);
+    } catch (e) {
+      prompt("無法寫入剪貼簿，請手動複製:", result.command);
+    }
+  };
+
+  const length = result.command.length;
+  const lengthColor = length > COMMAND_BLOCK_LIMIT ? 'text-red-400' : length > CHAT_LIMIT ? 'text-yellow-400' : 'text-green-400';
+  const input = 'bg-gray-950 border border-gray-700 rounded px-2 py-1 font-mono text-xs text-gray-200 outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2 min-w-0"><Terminal size={20} /> 產生指令 <span className="text-sm font-mono text-orange-300 truncate">{path}</span></h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-3 text-sm overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-2">
+            {kinds.map(k => (
+              <button key={k} onClick={() => setKind(k)} className={`px-3 py-1 rounded text-xs ${kind === k ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{KIND_LABELS[k]}</button>
+            ))}
+            <select value={options.syntax} onChange={e => setOption('syntax', e.target.value)} className="ml-auto bg-gray-950 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200">
+              {(Object.keys(SYNTAX_LABELS) as CommandSyntax[]).map(s => <option key={s} value={s}>{SYNTAX_LABELS[s]}</option>)}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+            {kind === 'give' && <label className="flex items-center gap-1">玩家 <input value={options.player} onChange={e => setOption('player', e.target.value)} className={`${input} w-40`} /></label>}
+            {(kind === 'summon' || kind === 'setblock') && <label className="flex items-center gap-1">座標 <input value={options.position} onChange={e => setOption('position', e.target.value)} className={`${input} w-32`} /></label>}
+            {kind === 'setblock' && <label className="flex items-center gap-1">方塊 <input value={options.block} onChange={e => setOption('block', e.target.value)} className={`${input} w-56`} /></label>}
+            {kind === 'data' && <label className="flex items-center gap-1 flex-1">目標 <input value={options.target} onChange={e => setOption('target', e.target.value)} className={`${input} flex-1`} /></label>}
+          </div>
+
+          {result.error ? (
+            <div className="text-red-400 text-xs">{result.error}</div>
+          ) : (
+            <textarea readOnly value={result.command} onFocus={e => e.target.select()} className="h-40 bg-gray-950 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 outline-none resize-none break-all" />
+          )}
+
+          {result.warnings.length > 0 && (
+            <div className="max-h-32 overflow-y-auto flex flex-col gap-1 text-xs text-yellow-400">
+              {result.warnings.map((w, i) => <div key={i} className="flex items-start gap-1"><AlertTriangle size={12} className="shrink-0 mt-0.5" /> {w}</div>)}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-700 text-xs text-gray-400 shrink-0">
+          <span className={lengthColor}>{length} 字元</span>
+          <span>聊天欄上限 {CHAT_LIMIT} · 指令方塊上限 {COMMAND_BLOCK_LIMIT}</span>
+          <div className="ml-auto">
+            <button onClick={handleCopy} disabled={!result.command} className="flex items-center gap-1 px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600"><Copy size={14} /> 複製指令</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useMemo, useRef, useLayoutEffect } from 'react';
+import { NBTFile, NBTTag, TagType, TagTypeNames } from '../types';
+import { diffTags, applyHunk, countChanges, DiffNode, DiffStatus } from '../utils/nbtDiff';
+import { SNBTWriter } from '../utils/snbt';
+import { ROW_HEIGHT } from './NBTNode';
+import { X, GitCompare, ChevronRight, ChevronDown, ArrowLeftToLine, ArrowRightToLine } from 'lucide-react';
+
+interface DiffViewProps {
+  file: NBTFile;
+  files: NBTFile[];
+  onApply: (fileId: string, newRoot: NBTTag) => void;
+  onClose: () => void;
+}
+
+interface DiffRow {
+  node: DiffNode;
+  key: string;
+  depth: number;
+}
+
+const ORIGINAL = 'original';
+const OVERSCAN = 10;
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  same: '',
+  added: 'bg-green-900/30',
+  removed: 'bg-red-900/30',
+  changed: 'bg-yellow-900/20',
+  retyped: 'bg-purple-900/30',
+};
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  same: '',
+  added: '新增',
+  removed: '移除',
+  changed: '變更',
+  retyped: '型態變更',
+};
+
+const summarize = (tag: NBTTag): string => {
+  if (tag.type === TagType.Compound) return `${tag.value.length} 項`;
+  if (tag.type === TagType.List) return `${tag.value.list.length} 項`;
+  if ([TagType.ByteArray, TagType.IntArray, TagType.LongArray].includes(tag.type)) return `陣列長度 [${tag.value.length}]`;
+  const text = SNBTWriter.write(tag);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+const rowKey = (node: DiffNode) => `${node.leftIndices?.join(',') ?? '-'}|${node.rightIndices?.join(',') ?? '-'}`;
+
+const DiffCell: React.FC<{ tag: NBTTag | null; depth: number; status: DiffStatus }> = ({ tag, depth, status }) => (
+  <div className="flex-1 min-w-0 flex items-center overflow-hidden" style={{ paddingLeft: depth * 20 }}>
+    {tag ? (
+      <>
+        <span className="mr-2 font-bold text-xs uppercase opacity-60 shrink-0">{TagTypeNames[tag.type].split(' ')[0]}</span>
+        {tag.name !== null && <span className="mr-2 text-orange-300 shrink-0">{tag.name}:</span>}
+        <span className={`truncate ${status === 'same' ? 'text-gray-400' : 'text-blue-200'}`} title={summarize(tag)}>{summarize(tag)}</span>
+      </>
+    ) : (
+      <span className="text-gray-600 italic text-xs">(無)</span>
+    )}
+  </div>
+);
+
+export const DiffView: React.FC<DiffViewProps> = ({ file, files, onApply, onClose }) => {
+  const [leftSource, setLeftSource] = useState<string>(ORIGINAL);
+  const [listKeys, setListKeys] = useState('Slot, UUID');
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  // Containers whose expansion differs from the default (changed ones open, identical ones closed)
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const others = files.filter(f => f.id !== file.id && !f.region);
+  const leftFile = leftSource === ORIGINAL ? null : files.find(f => f.id === leftSource) ?? null;
+  const leftRoot = leftFile ? leftFile.root : file.originalRoot;
+
+  const diff = useMemo(() => diffTags(leftRoot, file.root, {
+    listKeys: listKeys.split(',').map(k => k.trim()).filter(Boolean),
+  }), [leftRoot, file.root, listKeys]);
+
+  const rows = useMemo(() => {
+    const out: DiffRow[] = [];
+    const visit = (node: DiffNode, depth: number) => {
+      if (onlyChanges && node.status === 'same' && depth > 0) return;
+      const key = rowKey(node);
+      out.push({ node, key, depth });
+      const expanded = (node.status !== 'same') !== toggled.has(key);
+      if (expanded) node.children.forEach(child => visit(child, depth + 1));
+    };
+    visit(diff, 0);
+    return out;
+  }, [diff, onlyChanges, toggled]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewportHeight(el.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const toggle = (key: string) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const take = (node: DiffNode, side: 'left' | 'right') => {
+    try {
+      const newRoot = applyHunk(node, side, leftRoot, file.root);
+      if (side === 'left') onApply(file.id, newRoot);
+      else if (leftFile) onApply(leftFile.id, newRoot);
+    } catch (e) {
+      alert(`套用失敗: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const changes = countChanges(diff);
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl h-[90vh] overflow-hidden flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <div className="flex items-center gap-4">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2"><GitCompare size={20} /> 比較差異</h2>
+            <span className={`text-sm ${changes ? 'text-yellow-300' : 'text-gray-500'}`}>{changes ? `${changes} 處差異` : '內容相同'}</span>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4 px-6 py-3 border-b border-gray-700 text-xs text-gray-400 shrink-0">
+          <label className="flex items-center gap-2">
+            左側
+            <select value={leftSource} onChange={e => setLeftSource(e.target.value)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1 text-gray-200">
+              <option value={ORIGINAL}>{file.filename} (上次載入/儲存)</option>
+              {others.map(f => <option key={f.id} value={f.id}>{f.filename}</option>)}
+            </select>
+          </label>
+          <span>右側: <span className="text-gray-200">{file.filename} (目前)</span></span>
+          <label className="flex items-center gap-2 ml-auto" title="列表中的複合標籤依此鍵配對，依序嘗試">
+            列表配對鍵
+            <input value={listKeys} onChange={e => setListKeys(e.target.value)} placeholder="Slot, UUID" className="bg-gray-950 border border-gray-700 rounded px-2 py-1 text-gray-200 font-mono w-36" />
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={onlyChanges} onChange={e => setOnlyChanges(e.target.checked)} />
+            只顯示差異
+          </label>
+        </div>
+
+        <div ref={scrollRef} className="flex-1 overflow-auto font-mono text-sm" onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+          <div style={{ paddingTop: start * ROW_HEIGHT, paddingBottom: (rows.length - end) * ROW_HEIGHT }}>
+            {rows.slice(start, end).map(({ node, key, depth }) => {
+              const hasChildren = node.children.length > 0;
+              const expanded = (node.status !== 'same') !== toggled.has(key);
+              return (
+                <div key={key} className={`flex items-center gap-2 px-2 group ${STATUS_STYLES[node.status]}`} style={{ height: ROW_HEIGHT }}>
+                  <div className="w-4 shrink-0 text-gray-500 cursor-pointer" onClick={() => hasChildren && toggle(key)}>
+                    {hasChildren && (expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+                  </div>
+                  <DiffCell tag={node.left} depth={depth} status={node.status} />
+                  <div className="w-40 shrink-0 flex items-center justify-center gap-1 text-xs">
+                    {node.status !== 'same' && (
+                      <>
+                        <button onClick={() => take(node, 'right')} disabled={!leftFile} title="採用右側" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent opacity-0 group-hover:opacity-100"><ArrowLeftToLine size={14} /></button>
+                        <span className="text-gray-400 w-14 text-center">{STATUS_LABELS[node.status]}</span>
+                        <button onClick={() => take(node, 'left')} title="採用左側" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 opacity-0 group-hover:opacity-100"><ArrowRightToLine size={14} /></button>
+                      </>
+                    )}
+                  </div>
+                  <DiffCell tag={node.right} depth={depth} status={node.status} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
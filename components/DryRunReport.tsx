@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+
+// Shared by the batch, UUID migration and item upgrade dialogs: a dry run lists what each file would get,
+// then apply writes it
+
+// Per-file lists only render their head
+export const REPORT_LIMIT = 200;
+
+// File checklists and expanded rows both flip one id at a time
+export const toggled = (set: Set<string>, id: string): Set<string> => {
+  const next = new Set(set);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
+
+export const useDryRun = <R extends { fileId: string }>(run: () => R[], touched: (report: R) => boolean) => {
+  const [reports, setReports] = useState<R[] | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [applied, setApplied] = useState<string[]>([]);
+
+  const dryRun = () => {
+    setReports(run());
+    setApplied([]);
+  };
+
+  // Computed again on the current trees, so edits made after the dry run aren't overwritten.
+  // `commit` confirms and hands the results over, returning false when nothing was applied.
+  const apply = (commit: (results: R[]) => boolean) => {
+    const results = run().filter(touched);
+    if (results.length === 0 || !commit(results)) return;
+    setApplied(results.map(r => r.fileId));
+    setReports(null);
+  };
+
+  const toggleExpanded = (id: string) => setExpanded(prev => toggled(prev, id));
+
+  return { reports, expanded, toggleExpanded, applied, dryRun, apply };
+};
+
+interface ReportEntryProps {
+  summary: React.ReactNode; // Contents of the file row: its name and counts
+  expandable?: boolean;
+  count: number; // Items in the file's list, rendered by index
+  renderItem: (index: number) => React.ReactNode;
+  unit: string; // Noun for the "only the first N" note
+  open: boolean;
+  onToggle: () => void;
+  children?: React.ReactNode; // Extra lines under the items (errors, notes)
+}
+
+// One file of the report: a row that expands into its first REPORT_LIMIT items
+export const ReportEntry: React.FC<ReportEntryProps> = ({ summary, expandable = true, count, renderItem, unit, open, onToggle, children }) => (
+  <div className="border-b border-gray-700/60">
+    <div onClick={() => expandable && onToggle()} className={`flex items-center gap-2 px-4 py-1.5 ${expandable ? 'cursor-pointer hover:bg-gray-700/40' : ''}`}>
+      <span className="w-4 text-gray-500">{expandable && (open ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}</span>
+      {summary}
+    </div>
+    {open && expandable && (
+      <div className="pl-10 pr-4 pb-2 font-mono text-xs flex flex-col gap-1">
+        {Array.from({ length: Math.min(count, REPORT_LIMIT) }, (_, i) => renderItem(i))}
+        {count > REPORT_LIMIT && <div className="text-gray-500">僅顯示前 {REPORT_LIMIT} {unit}</div>}
+        {children}
+      </div>
+    )}
+  </div>
+);
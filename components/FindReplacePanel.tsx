@@ -0,0 +1,134 @@
+import React, { useState, useMemo } from 'react';
+import { NBTTag, TagType, TagTypeNames } from '../types';
+import { NodeId } from '../utils/treeUtils';
+import { findMatches, planReplacements, applyReplacements, FindQuery, FindTarget } from '../utils/findReplace';
+import { X, Replace, Search } from 'lucide-react';
+
+interface FindReplacePanelProps {
+  root: NBTTag;
+  selectedIds: Set<NodeId>;
+  onApply: (newRoot: NBTTag) => void;
+  onReveal: (tag: NBTTag) => void;
+  onClose: () => void;
+}
+
+const FILTER_TYPES = [
+  TagType.Byte, TagType.Short, TagType.Int, TagType.Long, TagType.Float, TagType.Double,
+  TagType.String, TagType.List, TagType.Compound, TagType.ByteArray, TagType.IntArray, TagType.LongArray,
+];
+
+// Long result lists only render their head; "replace all" still covers every match
+const PREVIEW_LIMIT = 500;
+
+const formatValue = (value: any): string => value !== null && typeof value === 'object' ? '…' : String(value);
+
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ root, selectedIds, onApply, onReveal, onClose }) => {
+  const [pattern, setPattern] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [target, setTarget] = useState<FindTarget>('both');
+  const [types, setTypes] = useState<TagType[]>([]);
+  const [numeric, setNumeric] = useState('');
+  const [inSelection, setInSelection] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  // Search runs on demand; the last submitted query is re-evaluated whenever the tree changes
+  const [submitted, setSubmitted] = useState<{ query: FindQuery; scope: Set<NodeId> | null } | null>(null);
+
+  const outcome = useMemo(() => {
+    if (!submitted) return null;
+    try {
+      const matches = findMatches(root, submitted.query, submitted.scope);
+      return { matches, planned: planReplacements(root, matches, submitted.query, replacement) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [root, submitted, replacement]);
+
+  const runSearch = () => {
+    setSubmitted({
+      query: { pattern, regex, caseSensitive, target, types, numeric },
+      scope: inSelection && selectedIds.size > 0 ? new Set(selectedIds) : null,
+    });
+  };
+
+  const toggleType = (type: TagType) => {
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const planned = outcome && 'planned' in outcome ? outcome.planned! : [];
+  const applicable = planned.filter(m => !m.error && (m.newName !== m.tag.name || m.newValue !== m.tag.value));
+
+  const replaceAll = () => {
+    if (applicable.length === 0) return;
+    if (!confirm(`確定取代 ${applicable.length} 個項目?`)) return;
+    try {
+      onApply(applyReplacements(root, applicable));
+    } catch (e) {
+      alert(`取代失敗: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-200 focus:border-blue-500 outline-none";
+
+  return (
+    <div className="w-96 shrink-0 bg-gray-900 border-l border-gray-800 flex flex-col text-sm" onClick={e => e.stopPropagation()}>
+      <div className="h-10 flex items-center justify-between px-3 border-b border-gray-800 shrink-0">
+        <span className="font-bold text-gray-200 flex items-center gap-2"><Replace size={16} /> 尋找與取代</span>
+        <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"><X size={16} /></button>
+      </div>
+
+      <div className="p-3 flex flex-col gap-2 border-b border-gray-800 shrink-0">
+        <input value={pattern} onChange={e => setPattern(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') runSearch(); }} placeholder="尋找 (名稱或值)" className={`${inputClass} font-mono`} autoFocus />
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-1"><input type="checkbox" checked={regex} onChange={e => setRegex(e.target.checked)} /> 正規表達式</label>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={caseSensitive} onChange={e => setCaseSensitive(e.target.checked)} /> 區分大小寫</label>
+          <select value={target} onChange={e => setTarget(e.target.value as FindTarget)} className="ml-auto bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-gray-200">
+            <option value="both">名稱與值</option>
+            <option value="name">僅名稱</option>
+            <option value="value">僅值</option>
+          </select>
+        </div>
+        <input value={numeric} onChange={e => setNumeric(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') runSearch(); }} placeholder="數值條件，例如 Count > 64" title="支援 > >= < <= = != 以及 between a and b，可在前面加上標籤名稱" className={`${inputClass} font-mono`} />
+        <div className="flex flex-wrap gap-1">
+          {FILTER_TYPES.map(type => (
+            <button key={type} onClick={() => toggleType(type)} className={`px-1.5 py-0.5 rounded text-[10px] border ${types.includes(type) ? 'bg-blue-600 border-blue-500 text-white' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}>
+              {TagTypeNames[type].split(' ')[0]}
+            </button>
+          ))}
+        </div>
+        <label className={`flex items-center gap-1 text-xs ${selectedIds.size === 0 ? 'text-gray-600' : 'text-gray-400'}`}>
+          <input type="checkbox" checked={inSelection} disabled={selectedIds.size === 0} onChange={e => setInSelection(e.target.checked)} /> 僅限選取範圍 ({selectedIds.size})
+        </label>
+        <button onClick={runSearch} className="flex items-center justify-center gap-2 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-200"><Search size={14} /> 尋找</button>
+        <input value={replacement} onChange={e => setReplacement(e.target.value)} placeholder="取代為 (正規表達式可用 $1)" className={`${inputClass} font-mono mt-2`} />
+        <button onClick={replaceAll} disabled={applicable.length === 0} className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">全部取代 ({applicable.length})</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {outcome && 'error' in outcome && <div className="p-3 text-red-400 text-xs">{outcome.error}</div>}
+        {outcome && !('error' in outcome) && (
+          <div className="px-3 py-2 text-xs text-gray-500">找到 {planned.length} 項{planned.length > PREVIEW_LIMIT && `，僅顯示前 ${PREVIEW_LIMIT} 項`}</div>
+        )}
+        {planned.slice(0, PREVIEW_LIMIT).map(m => {
+          const changed = !m.error && (m.newName !== m.tag.name || m.newValue !== m.tag.value);
+          return (
+            <div key={m.indices.join(',')} onClick={() => onReveal(m.tag)} className="px-3 py-1.5 border-b border-gray-800/60 hover:bg-gray-800 cursor-pointer font-mono text-xs">
+              <div className="text-orange-300 truncate" title={m.path}>{m.path}</div>
+              <div className="truncate text-gray-400">
+                {m.tag.name !== null && <span>{m.tag.name}: </span>}
+                <span className="text-blue-200">{formatValue(m.tag.value)}</span>
+              </div>
+              {m.error ? (
+                <div className="text-red-400 truncate" title={m.error}>{m.error}</div>
+              ) : changed && (
+                <div className="truncate text-green-300">
+                  → {m.newName !== null && <span>{m.newName}: </span>}{formatValue(m.newValue)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { ItemStack } from '../utils/itemStack';
+import { TextSegment } from '../utils/textComponent';
+import { describeItem, humanizeId, toRoman, AttributeLine } from '../utils/itemTooltip';
+
+// Shulker box tooltips list this many stacks before "and N more"
+const CONTENTS_LIMIT = 5;
+
+export const RichText: React.FC<{ segments: TextSegment[], className?: string }> = ({ segments, className }) => (
+  <span className={className}>
+    {segments.map((s, i) => (
+      <span
+        key={i}
+        className={s.obfuscated ? 'animate-pulse' : undefined}
+        style={{
+          color: s.color,
+          fontWeight: s.bold ? 'bold' : undefined,
+          fontStyle: s.italic ? 'italic' : undefined,
+          textDecoration: [s.underlined && 'underline', s.strikethrough && 'line-through'].filter(Boolean).join(' ') || undefined,
+        }}
+      >
+        {s.text}
+      </span>
+    ))}
+  </span>
+);
+
+const formatAttribute = (a: AttributeLine) => {
+  const value = a.percent ? `${+(a.amount * 100).toFixed(2)}%` : `${+a.amount.toFixed(2)}`;
+  return `${a.amount >= 0 ? '+' : ''}${value} ${humanizeId(a.attribute)}`;
+};
+
+// Laid out like the in-game tooltip: name, enchantments, lore, modifiers, then durability
+export const ItemTooltip: React.FC<{ item: ItemStack }> = ({ item }) => {
+  const tooltip = useMemo(() => describeItem(item), [item]);
+  const enchantments = [...tooltip.enchantments, ...tooltip.storedEnchantments];
+
+  return (
+    <div className="flex flex-col gap-0.5 text-left">
+      {tooltip.name
+        ? <RichText segments={tooltip.name} className="font-bold break-all" />
+        : <p className="font-bold text-white break-all leading-tight">{humanizeId(item.id)}</p>}
+      <p className="text-gray-500 font-mono text-[9px] break-all">{item.id}{item.count > 1 && ` ×${item.count}`}</p>
+
+      {enchantments.map((e, i) => (
+        <p key={`e${i}`} style={{ color: e.id.includes('curse') ? '#FF5555' : '#AAAAAA' }} title={e.id}>
+          {humanizeId(e.id)} {toRoman(e.level)}
+        </p>
+      ))}
+
+      {tooltip.lore.map((line, i) => <RichText key={`l${i}`} segments={line} className="block" />)}
+
+      {tooltip.contents.length > 0 && (
+        <div className="mt-1">
+          {tooltip.contents.slice(0, CONTENTS_LIMIT).map((stack, i) => (
+            <p key={`c${i}`} className="text-gray-300">{humanizeId(stack.id)} x{stack.count}</p>
+          ))}
+          {tooltip.contents.length > CONTENTS_LIMIT && <p className="text-gray-300 italic">以及其他 {tooltip.contents.length - CONTENTS_LIMIT} 項...</p>}
+        </div>
+      )}
+
+      {tooltip.attributes.length > 0 && (
+        <div className="mt-1">
+          {tooltip.attributes.map((a, i) => (
+            <p key={`a${i}`} style={{ color: a.amount >= 0 ? '#5555FF' : '#FF5555' }}>
+              {formatAttribute(a)}{a.slot && <span className="text-gray-500"> ({a.slot})</span>}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {tooltip.unbreakable && <p style={{ color: '#5555FF' }}>無法破壞</p>}
+      {tooltip.durability && (
+        <p className="text-white">
+          耐久度: {tooltip.durability.max !== null ? `${tooltip.durability.max - tooltip.durability.damage} / ${tooltip.durability.max}` : `已損耗 ${tooltip.durability.damage}`}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { NBTFile } from '../types';
+import { upgradeFile, ItemUpgradeReport } from '../utils/itemStack';
+import { useDryRun, ReportEntry, toggled } from './DryRunReport';
+import { X, PackageCheck, Play } from 'lucide-react';
+
+interface ItemUpgradeDialogProps {
+  files: NBTFile[];
+  onApply: (reports: ItemUpgradeReport[]) => boolean; // false when the change was refused
+  onClose: () => void;
+}
+
+export const ItemUpgradeDialog: React.FC<ItemUpgradeDialogProps> = ({ files, onApply, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(files.map(f => f.id)));
+  const { reports, expanded, toggleExpanded, applied, dryRun, apply } = useDryRun(
+    () => files.filter(f => selected.has(f.id)).map(upgradeFile),
+    (r: ItemUpgradeReport) => r.converted > 0,
+  );
+
+  const handleApply = () => apply(results => {
+    const unmapped = results.reduce((n, r) => n + r.unmapped.length, 0);
+    if (!confirm(`確定升級 ${results.reduce((n, r) => n + r.converted, 0)} 個物品，共影響 ${results.length} 個檔案?${unmapped ? `\n${unmapped} 個欄位無法對應，將保留於 minecraft:custom_data。` : ''}`)) return false;
+    return onApply(results);
+  });
+
+  const affected = reports?.filter(r => r.converted > 0 || r.errors.length > 0) ?? [];
+  const totalItems = affected.reduce((n, r) => n + r.converted, 0);
+  const totalUnmapped = affected.reduce((n, r) => n + r.unmapped.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] overflow-hidden flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><PackageCheck size={20} /> 升級物品格式 (1.20.5+)</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-64 shrink-0 border-r border-gray-700 flex flex-col text-sm">
+            <div className="flex items-center gap-2 px-3 h-10 border-b border-gray-700 text-xs text-gray-400 shrink-0">
+              <span>檔案 ({selected.size}/{files.length})</span>
+              <button onClick={() => setSelected(new Set(files.map(f => f.id)))} className="ml-auto hover:text-white">全選</button>
+              <button onClick={() => setSelected(new Set())} className="hover:text-white">全不選</button>
+            </div>
+            <div className="flex-1 overflow-y-auto py-1">
+              {files.map(f => (
+                <label key={f.id} className="flex items-center gap-2 px-3 py-1 hover:bg-gray-700/40 cursor-pointer">
+                  <input type="checkbox" checked={selected.has(f.id)} onChange={() => setSelected(prev => toggled(prev, f.id))} />
+                  <span className="truncate text-gray-200" title={f.relativePath ?? f.filename}>{f.filename}</span>
+                </label>
+              ))}
+            </div>
+            <div className="p-3 border-t border-gray-700">
+              <button onClick={dryRun} disabled={selected.size === 0} className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40"><Play size={14} /> 試跑</button>
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 overflow-y-auto text-sm">
+            {!reports && applied.length === 0 && <div className="p-4 text-gray-500">將舊格式的物品 (Count + tag) 轉換為 1.20.5+ 的 count + components，包含附魔、名稱與說明、耐久、方塊實體資料與容器內容。無法對應的欄位會保留在 minecraft:custom_data 並列於報告中。</div>}
+            {!reports && applied.length > 0 && <div className="p-4 text-green-400">已升級 {applied.length} 個檔案，可使用「全部儲存」匯出。</div>}
+            {reports && affected.length === 0 && <div className="p-4 text-gray-500">選取的檔案中沒有舊格式的物品。</div>}
+            {affected.map(report => (
+              <ReportEntry
+                key={report.fileId}
+                open={expanded.has(report.fileId)}
+                onToggle={() => toggleExpanded(report.fileId)}
+                summary={<>
+                  <span className="truncate text-gray-200">{report.filename}</span>
+                  <span className="ml-auto text-xs shrink-0 text-green-400">{report.converted} 個物品</span>
+                  {report.unmapped.length > 0 && <span className="text-xs shrink-0 text-yellow-400">{report.unmapped.length} 個欄位無法對應</span>}
+                  {report.errors.length > 0 && <span className="text-xs shrink-0 text-red-400" title={report.errors.join('\n')}>{report.errors.length} 個錯誤</span>}
+                </>}
+                count={report.unmapped.length}
+                unit="個欄位"
+                renderItem={i => {
+                  const u = report.unmapped[i];
+                  return (
+                    <div key={i} className="min-w-0">
+                      <div className="text-orange-300 truncate" title={u.path}>{u.path} <span className="text-yellow-300">{u.key}</span></div>
+                      <div className="text-gray-400 truncate font-sans">{u.reason}</div>
+                    </div>
+                  );
+                }}
+              >
+                {report.unmapped.length === 0 && report.errors.length === 0 && <div className="text-gray-500 font-sans">所有欄位皆已轉換為元件。</div>}
+                {report.errors.map((e, i) => <div key={`e${i}`} className="text-red-400 truncate">{e}</div>)}
+              </ReportEntry>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-700 text-xs text-gray-400 shrink-0">
+          {reports && <span>{affected.length} / {reports.length} 個檔案受影響 · 共 {totalItems} 個物品 · {totalUnmapped} 個欄位無法對應</span>}
+          <div className="ml-auto">
+            <button onClick={handleApply} disabled={totalItems === 0} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">套用</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
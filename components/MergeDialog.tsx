@@ -0,0 +1,167 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { NBTFile, NBTTag } from '../types';
+import { mergeTags, MergeConflict, MergeResolutions } from '../utils/nbtMerge';
+import { SNBTParser, SNBTWriter } from '../utils/snbt';
+import { X, GitMerge, Check, Pencil } from 'lucide-react';
+
+interface MergeDialogProps {
+  files: NBTFile[];
+  activeFileId: string | null;
+  onCreate: (root: NBTTag, source: NBTFile) => void;
+  onClose: () => void;
+}
+
+type Choice = 'base' | 'ours' | 'theirs' | 'custom';
+
+const CHOICE_LABELS: Record<Choice, string> = {
+  base: '基準',
+  ours: 'A',
+  theirs: 'B',
+  custom: '自訂',
+};
+
+const preview = (tag: NBTTag | null): string => {
+  if (!tag) return '(不存在)';
+  const text = SNBTWriter.write(tag);
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+};
+
+const FileSelect: React.FC<{ label: string; value: string; files: NBTFile[]; onChange: (id: string) => void }> = ({ label, value, files, onChange }) => (
+  <label className="flex flex-col gap-1 text-gray-400 text-xs flex-1 min-w-0">
+    {label}
+    <select value={value} onChange={e => onChange(e.target.value)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200">
+      {files.map(f => <option key={f.id} value={f.id}>{f.filename}</option>)}
+    </select>
+  </label>
+);
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({ files, activeFileId, onCreate, onClose }) => {
+  const candidates = files.filter(f => !f.region);
+  const pick = (preferred: string | null, skip: string[]) =>
+    candidates.find(f => f.id === preferred && !skip.includes(f.id))?.id ?? candidates.find(f => !skip.includes(f.id))?.id ?? '';
+
+  const [oursId, setOursId] = useState(() => pick(activeFileId, []));
+  const [baseId, setBaseId] = useState(() => pick(null, [oursId]));
+  const [theirsId, setTheirsId] = useState(() => pick(null, [oursId, baseId]));
+  const [listKeys, setListKeys] = useState('Slot, UUID');
+  const [choices, setChoices] = useState<Map<number, { choice: Choice; tag: NBTTag | null }>>(new Map());
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+
+  const base = candidates.find(f => f.id === baseId);
+  const ours = candidates.find(f => f.id === oursId);
+  const theirs = candidates.find(f => f.id === theirsId);
+  const distinct = new Set([baseId, oursId, theirsId]).size === 3;
+  const keys = useMemo(() => listKeys.split(',').map(k => k.trim()).filter(Boolean), [listKeys]);
+
+  // Conflict ids only hold for one set of inputs
+  useEffect(() => {
+    setChoices(new Map());
+    setEditing(null);
+  }, [baseId, oursId, theirsId, keys]);
+
+  const result = useMemo(() => {
+    if (!base || !ours || !theirs || !distinct) return null;
+    const resolutions: MergeResolutions = new Map();
+    choices.forEach((c, id) => resolutions.set(id, c.tag));
+    try {
+      return mergeTags(base.root, ours.root, theirs.root, { listKeys: keys }, resolutions);
+    } catch (e) {
+      return e instanceof Error ? e : new Error(String(e));
+    }
+  }, [base, ours, theirs, distinct, keys, choices]);
+
+  const resolve = (conflict: MergeConflict, choice: Choice, tag: NBTTag | null) => {
+    setChoices(prev => new Map(prev).set(conflict.id, { choice, tag }));
+  };
+
+  const resolveAll = (choice: 'ours' | 'theirs') => {
+    if (!result || result instanceof Error) return;
+    setChoices(new Map(result.conflicts.map(c => [c.id, { choice, tag: c[choice] }])));
+  };
+
+  const saveEdit = (conflict: MergeConflict) => {
+    if (!editing) return;
+    try {
+      resolve(conflict, 'custom', editing.text.trim() ? SNBTParser.parse(editing.text.trim()) : null);
+      setEditing(null);
+    } catch (e) {
+      alert(`無法解析 SNBT: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const merged = result && !(result instanceof Error) ? result : null;
+  const unresolved = merged ? merged.conflicts.filter(c => !choices.has(c.id)).length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><GitMerge size={20} /> 三方合併</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex gap-4 px-6 py-4 border-b border-gray-700 shrink-0">
+          <FileSelect label="基準 (共同備份)" value={baseId} files={candidates} onChange={setBaseId} />
+          <FileSelect label="版本 A" value={oursId} files={candidates} onChange={setOursId} />
+          <FileSelect label="版本 B" value={theirsId} files={candidates} onChange={setTheirsId} />
+          <label className="flex flex-col gap-1 text-gray-400 text-xs w-36" title="列表中的複合標籤依此鍵配對，依序嘗試">
+            列表配對鍵
+            <input value={listKeys} onChange={e => setListKeys(e.target.value)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200 font-mono" />
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-3 text-sm">
+          {!distinct && <div className="text-gray-500">請選擇三個不同的檔案。</div>}
+          {result instanceof Error && <div className="text-red-400">合併失敗: {result.message}</div>}
+          {merged && merged.conflicts.length === 0 && <div className="text-green-400">沒有衝突，所有變更皆可自動合併。</div>}
+          {merged?.conflicts.map(conflict => {
+            const chosen = choices.get(conflict.id);
+            return (
+              <div key={conflict.id} className={`rounded border ${chosen ? 'border-green-700/60' : 'border-yellow-600/60'} bg-gray-900/60`}>
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700/60">
+                  <span className="font-mono text-orange-300 truncate flex-1" title={conflict.path}>{conflict.path}</span>
+                  {chosen && <span className="text-xs text-green-400 flex items-center gap-1"><Check size={12} /> {CHOICE_LABELS[chosen.choice]}</span>}
+                  {(['ours', 'theirs', 'base'] as const).map(side => (
+                    <button key={side} onClick={() => resolve(conflict, side, conflict[side])} className={`px-2 py-0.5 rounded text-xs ${chosen?.choice === side ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+                      採用{CHOICE_LABELS[side]}
+                    </button>
+                  ))}
+                  <button onClick={() => setEditing({ id: conflict.id, text: chosen?.tag ? SNBTWriter.write(chosen.tag) : conflict.ours ? SNBTWriter.write(conflict.ours) : '' })} title="以 SNBT 編輯" className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700"><Pencil size={12} /></button>
+                </div>
+                {editing?.id === conflict.id ? (
+                  <div className="p-3 flex flex-col gap-2">
+                    <textarea value={editing.text} onChange={e => setEditing({ id: conflict.id, text: e.target.value })} rows={4} placeholder="留空表示移除此標籤" className="bg-gray-950 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 outline-none focus:border-blue-500" />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditing(null)} className="px-3 py-1 rounded text-xs text-gray-300 hover:bg-gray-700">取消</button>
+                      <button onClick={() => saveEdit(conflict)} className="px-3 py-1 rounded text-xs bg-blue-600 hover:bg-blue-500 text-white">套用</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-3 divide-x divide-gray-700/60 font-mono text-xs">
+                    {(['base', 'ours', 'theirs'] as const).map(side => (
+                      <div key={side} className="p-2 min-w-0">
+                        <div className="text-gray-500 mb-1 font-sans">{CHOICE_LABELS[side]}</div>
+                        <div className={`break-all ${conflict[side] ? 'text-blue-200' : 'text-gray-600 italic'}`}>{preview(conflict[side])}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-700 text-xs text-gray-400 shrink-0">
+          {merged && <span>自動合併 {merged.autoMerged} 處 · 衝突 {merged.conflicts.length} 處{unresolved > 0 && <span className="text-yellow-300"> (未解決 {unresolved})</span>}</span>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => resolveAll('ours')} disabled={!merged?.conflicts.length} className="px-3 py-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40">全部採用 A</button>
+            <button onClick={() => resolveAll('theirs')} disabled={!merged?.conflicts.length} className="px-3 py-1.5 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-40">全部採用 B</button>
+            <button onClick={() => merged && ours && onCreate(merged.root, ours)} disabled={!merged || unresolved > 0} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">建立合併結果</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,35 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { TagType, NBTTag, TagTypeNames } from '../types';
-import { ChevronRight, ChevronDown, Edit2, Trash, Plus } from 'lucide-react';
+import { SNBTParser, SNBTWriter } from '../utils/snbt';
+import { NodeId, parseTagValue } from '../utils/treeUtils';
+import { detectTextField, detectNbtTextField, parseTextComponent, textComponentFromTag, TextFieldKind, TEXT_FIELD_BASE } from '../utils/textComponent';
+import { RichText } from './ItemTooltip';
+import { detectUUIDField, normalizeUUID, uuidToInts, writeUUIDPair, pairToIntArray, intArrayToPair } from '../utils/uuid';
+import { ChevronRight, ChevronDown, Edit2, Trash, Plus, ClipboardCopy, ClipboardPaste, Replace, Route, Shuffle, ArrowLeftRight, Type } from 'lucide-react';
 
 interface NBTNodeProps {
   tag: NBTTag;
   depth: number;
-  onUpdate: (updatedTag: NBTTag) => void;
-  onDelete: () => void;
-  onAdd: (parentType: TagType) => void;
-  path: string;
+  id: NodeId;
+  indices: number[];
+  parent: NBTTag | null; // Only passed for rows that may hold a UUID or a text component, both of which depend on their surroundings
+  isExpanded: boolean;
+  isSelected: boolean;
   searchTerm: string;
-  // New Props
-  selectedPaths: Set<string>;
-  onSelect: (path: string, type: 'single' | 'toggle' | 'range') => void;
-  expandSignal: { id: number; type: 'expand_all' | 'collapse_all' | 'expand_selected' | 'collapse_selected'; targets?: Set<string> };
+  onToggle: (id: NodeId) => void;
+  onExpand: (id: NodeId) => void;
+  onSelect: (id: NodeId, type: 'single' | 'toggle' | 'range') => void;
+  onUpdateAt: (indices: number[], updatedTag: NBTTag) => void;
+  onDeleteAt: (indices: number[]) => void;
+  onCopyPath: (indices: number[]) => void;
+  onEditText: (indices: number[], tag: NBTTag, kind: TextFieldKind) => void;
 }
 
+// Every row has the same height so the tree view can window them by scroll offset
+export const ROW_HEIGHT = 28;
+const INDENT = 20;
+const GUIDE_INDENT = 11;
+
 const getTypeColor = (type: TagType) => {
   switch (type) {
     case TagType.Byte: return 'text-nbt-byte';
@@ -34,43 +48,64 @@ const getTypeColor = (type: TagType) => {
   }
 };
 
-const checkMatch = (t: NBTTag, term: string): boolean => {
-    if (!term) return false;
-    const termLower = term.toLowerCase();
-    if (t.name && t.name.toLowerCase().includes(termLower)) return true;
-    if (t.value !== null && typeof t.value !== 'object' && String(t.value).toLowerCase().includes(termLower)) return true;
-    if (t.type === TagType.List && t.value.list) return t.value.list.some((c: NBTTag) => checkMatch(c, term));
-    if (t.type === TagType.Compound && Array.isArray(t.value)) return t.value.some((c: NBTTag) => checkMatch(c, term));
-    return false;
+// Falls back to a prompt where the async clipboard API is unavailable (e.g. non-HTTPS)
+const readClipboardSNBT = async (): Promise<NBTTag | null> => {
+    let text: string | null;
+    try {
+        text = navigator.clipboard?.readText ? await navigator.clipboard.readText() : prompt("貼上 SNBT:");
+    } catch (e) {
+        text = prompt("無法讀取剪貼簿，請手動貼上 SNBT:");
+    }
+    if (!text) return null;
+    try {
+        return SNBTParser.parse(text.trim());
+    } catch (e) {
+        alert(`無法解析 SNBT: ${e instanceof Error ? e.message : String(e)}`);
+        return null;
+    }
 };
 
-export const NBTNode: React.FC<NBTNodeProps> = ({ 
-    tag, depth, onUpdate, onDelete, onAdd, path, searchTerm,
-    selectedPaths, onSelect, expandSignal 
+const NBTNodeRow: React.FC<NBTNodeProps> = ({
+    tag, depth, id, indices, parent, isExpanded, isSelected, searchTerm,
+    onToggle, onExpand, onSelect, onUpdateAt, onDeleteAt, onCopyPath, onEditText
 }) => {
-  const [isExpanded, setIsExpanded] = useState(depth < 2); 
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState<string>('');
   const [editName, setEditName] = useState<string>(tag.name || '');
-  const [isHovered, setIsHovered] = useState(false);
 
-  const isSelected = selectedPaths.has(path);
   const isContainer = [TagType.Compound, TagType.List].includes(tag.type);
 
-  // Handle Global Expansion Signals
-  useEffect(() => {
-    if (expandSignal.id === 0) return; // Initial state
+  const onUpdate = (updatedTag: NBTTag) => onUpdateAt(indices, updatedTag);
+
+  // IntArray[4] and Most/Least pairs are shown and edited as a hyphenated UUID
+  const uuidField = useMemo(() => detectUUIDField(tag, parent), [tag, parent]);
+  const parentIndices = indices.slice(0, -1);
 
-    if (expandSignal.type === 'expand_all') {
-        if (isContainer) setIsExpanded(true);
-    } else if (expandSignal.type === 'collapse_all') {
-        if (isContainer) setIsExpanded(false);
-    } else if (expandSignal.type === 'expand_selected') {
-        if (isContainer && isSelected) setIsExpanded(true);
-    } else if (expandSignal.type === 'collapse_selected') {
-        if (isContainer && isSelected) setIsExpanded(false);
+  // Names, lore, sign lines and book pages hold JSON text components
+  const textField = useMemo(() => uuidField ? null : detectTextField(tag, parent), [tag, parent, uuidField]);
+  const nbtTextField = useMemo(() => detectNbtTextField(tag, parent), [tag, parent]);
+
+  const startEditing = () => {
+    if (uuidField) setEditValue(uuidField.uuid);
+    setIsEditing(true);
+  };
+
+  const writeUUID = (uuid: string, name: string | null = tag.name) => {
+    if (uuidField?.pair) onUpdateAt(parentIndices, writeUUIDPair(parent!, uuidField.pair, uuid));
+    else onUpdate({ ...tag, name, value: uuidToInts(uuid) });
+  };
+
+  // Between the 1.16+ IntArray and the older Most/Least form
+  const handleConvertUUID = () => {
+    if (!uuidField || parent?.type !== TagType.Compound) return;
+    try {
+      onUpdateAt(parentIndices, uuidField.pair
+        ? pairToIntArray(parent, uuidField.pair, uuidField.uuid)
+        : intArrayToPair(parent, indices[indices.length - 1], uuidField.uuid));
+    } catch (e) {
+      alert(`轉換失敗: ${e instanceof Error ? e.message : String(e)}`);
     }
-  }, [expandSignal, isContainer, isSelected]);
+  };
 
   const isDirectMatch = useMemo(() => {
     if (!searchTerm) return false;
@@ -81,70 +116,26 @@ export const NBTNode: React.FC<NBTNodeProps> = ({
   }, [tag, searchTerm]);
 
   useEffect(() => {
-    if (searchTerm) {
-        const hasChildMatch = checkMatch(tag, searchTerm);
-        if (hasChildMatch && isContainer) setIsExpanded(true);
-    }
-  }, [searchTerm, tag, isContainer]);
-
-  useEffect(() => {
-    if (tag.value !== undefined && tag.value !== null) setEditValue(tag.value.toString());
+    // Containers and arrays aren't edited as text; stringifying them is wasted work per mounted row
+    if (tag.value !== undefined && tag.value !== null && typeof tag.value !== 'object') setEditValue(tag.value.toString());
   }, [tag.value]);
 
-  const handleToggle = () => setIsExpanded(!isExpanded);
+  const handleToggle = () => onToggle(id);
 
   const handleSave = () => {
-    // Trim whitespace for numeric parsing to prevent errors (e.g. " 7000" or "7000 ")
-    const valTrimmed = editValue.trim();
-    let newValue: any = editValue;
-    
     try {
-        switch (tag.type) {
-            case TagType.Byte: {
-                const v = parseInt(valTrimmed);
-                if (isNaN(v)) throw new Error("並非有效的整數");
-                if (v < -128 || v > 127) throw new Error("超出 Byte 範圍 (-128 ~ 127)");
-                newValue = v;
-                break;
-            }
-            case TagType.Short: {
-                const v = parseInt(valTrimmed);
-                if (isNaN(v)) throw new Error("並非有效的整數");
-                if (v < -32768 || v > 32767) throw new Error("超出 Short 範圍 (-32768 ~ 32767)");
-                newValue = v;
-                break;
-            }
-            case TagType.Int: {
-                const v = parseInt(valTrimmed);
-                if (isNaN(v)) throw new Error("並非有效的整數");
-                newValue = v;
-                break;
-            }
-            case TagType.Long: {
-                try {
-                    // BigInt is strict, spaces or decimals will crash it.
-                    newValue = BigInt(valTrimmed);
-                } catch (e) {
-                    throw new Error("無效的 Long (長整數) 格式。請確保沒有小數點或非法字元。");
-                }
-                break;
-            }
-            case TagType.Float:
-            case TagType.Double: {
-                const v = parseFloat(valTrimmed);
-                if (isNaN(v)) throw new Error("無效的浮點數");
-                newValue = v;
-                break;
-            }
-            case TagType.String:
-                newValue = editValue; // Keep original formatting for strings (don't trim)
-                break;
-            case TagType.ByteArray:
-            case TagType.IntArray:
-            case TagType.LongArray:
-                throw new Error("請使用展開視圖編輯陣列元素，無法直接編輯原始字串。");
+        if (uuidField) {
+            const uuid = normalizeUUID(editValue);
+            if (!uuid) throw new Error("並非有效的 UUID");
+            // A pair keeps its names, renaming one half would break it
+            writeUUID(uuid, tag.name === null || uuidField.pair ? tag.name : editName);
+            setIsEditing(false);
+            return;
         }
 
+        // Containers only get renamed here
+        const newValue = isContainer ? tag.value : parseTagValue(tag.type, editValue);
+
         // IMPORTANT: If the tag is inside a List, its name MUST remain null.
         // Assigning a string (even empty "") to a list item violates NBT structure.
         const finalName = tag.name === null ? null : editName;
@@ -160,45 +151,38 @@ export const NBTNode: React.FC<NBTNodeProps> = ({
       e.stopPropagation();
       
       if (e.ctrlKey || e.metaKey) {
-          onSelect(path, 'toggle');
+          onSelect(id, 'toggle');
       } else if (e.shiftKey) {
-          onSelect(path, 'range');
+          onSelect(id, 'range');
       } else {
-          onSelect(path, 'single');
+          onSelect(id, 'single');
           if (isContainer && !isEditing) handleToggle();
       }
   };
 
   const renderValue = () => {
+    if (uuidField) return (
+      <span className="font-mono ml-2 truncate" title={uuidField.pair ? `${uuidField.pair.prefix}Most / ${uuidField.pair.prefix}Least: ${tag.value.toString()}` : `[I; ${Array.from(tag.value).join(', ')}]`}>
+        <span className="text-[10px] text-nbt-array border border-gray-600 rounded px-1 mr-1.5">UUID</span>
+        <span className="text-blue-200">{uuidField.uuid}</span>
+      </span>
+    );
+    if (textField) return (
+      <span className="ml-2 truncate" title={tag.value}>
+        <span className="text-[10px] text-nbt-string border border-gray-600 rounded px-1 mr-1.5">文字</span>
+        <RichText segments={parseTextComponent(tag.value, textField === 'sign' || textField === 'page' ? {} : TEXT_FIELD_BASE[textField])} className="font-sans" />
+      </span>
+    );
+    if (nbtTextField) return (
+      <span className="ml-2 truncate" title="1.21.5+ 以 NBT 儲存的文字元件，文字編輯器尚不支援，請展開後直接編輯子標籤">
+        <span className="text-[10px] text-gray-400 border border-gray-600 rounded px-1 mr-1.5">文字 (NBT)</span>
+        <RichText segments={textComponentFromTag(tag, nbtTextField === 'sign' ? {} : TEXT_FIELD_BASE[nbtTextField])} className="font-sans" />
+      </span>
+    );
     if (tag.type === TagType.Compound) return <span className="text-gray-500 italic text-xs">{tag.value.length} 項</span>;
     if (tag.type === TagType.List) return <span className="text-gray-500 italic text-xs">{tag.value.list.length} 項 (型態: {TagTypeNames[tag.value.itemType].split(' ')[0]})</span>;
     if ([TagType.ByteArray, TagType.IntArray, TagType.LongArray].includes(tag.type)) return <span className="text-gray-500 italic text-xs">陣列長度 [{tag.value.length}]</span>;
-    return <span className="text-blue-200 font-mono ml-2 break-all">{tag.value.toString()}</span>;
-  };
-
-  // Recursion handlers (Update, Delete, Add) are same as before but need to pass down new props
-  const handleChildUpdate = (index: number, updatedChild: NBTTag) => {
-    if (tag.type === TagType.List) {
-        const newList = [...tag.value.list];
-        newList[index] = updatedChild;
-        onUpdate({ ...tag, value: { ...tag.value, list: newList }});
-    } else if (tag.type === TagType.Compound) {
-        const newValue = [...tag.value];
-        newValue[index] = updatedChild;
-        onUpdate({ ...tag, value: newValue });
-    }
-  };
-
-  const handleChildDelete = (index: number) => {
-    if (tag.type === TagType.List) {
-        const newList = [...tag.value.list];
-        newList.splice(index, 1);
-        onUpdate({ ...tag, value: { ...tag.value, list: newList }});
-    } else if (tag.type === TagType.Compound) {
-        const newValue = [...tag.value];
-        newValue.splice(index, 1);
-        onUpdate({ ...tag, value: newValue });
-    }
+    return <span className="text-blue-200 font-mono ml-2 truncate" title={tag.value.toString()}>{tag.value.toString()}</span>;
   };
 
   const handleAddChild = (parentType: TagType) => {
@@ -206,31 +190,73 @@ export const NBTNode: React.FC<NBTNodeProps> = ({
       if (tag.type === TagType.Compound) {
           const newTag: NBTTag = { type: TagType.String, name: 'new_tag', value: 'value' };
           onUpdate({ ...tag, value: [...tag.value, newTag] });
-          setIsExpanded(true);
+          onExpand(id);
       } else if (tag.type === TagType.List) {
           let defaultValue: any = 0;
           if (tag.value.itemType === TagType.String) defaultValue = "";
           if (tag.value.itemType === TagType.Compound) defaultValue = [];
+          if (tag.value.itemType === TagType.ByteArray) defaultValue = new Int8Array(0);
+          if (tag.value.itemType === TagType.IntArray) defaultValue = new Int32Array(0);
+          if (tag.value.itemType === TagType.LongArray) defaultValue = new BigInt64Array(0);
+          if (tag.value.itemType === TagType.Long) defaultValue = 0n;
           const newTag: NBTTag = { type: tag.value.itemType, name: null, value: defaultValue };
           const newList = [...tag.value.list, newTag];
           onUpdate({ ...tag, value: { ...tag.value, list: newList }});
-          setIsExpanded(true);
+          onExpand(id);
       }
   };
 
+  const handleCopySNBT = async () => {
+      const text = SNBTWriter.write(tag);
+      try {
+          await navigator.clipboard.writeText(text);
+      } catch (e) {
+          prompt("無法寫入剪貼簿，請手動複製:", text);
+      }
+  };
+
+  const handlePasteChild = async () => {
+      const pasted = await readClipboardSNBT();
+      if (!pasted) return;
+      if (tag.type === TagType.Compound) {
+          const name = prompt("新標籤名稱:", 'new_tag');
+          if (name === null) return;
+          if ((tag.value as NBTTag[]).some(c => c.name === name)) {
+              alert(`已存在名為 "${name}" 的標籤`);
+              return;
+          }
+          onUpdate({ ...tag, value: [...tag.value, { ...pasted, name }] });
+      } else if (tag.type === TagType.List) {
+          const list = tag.value.list as NBTTag[];
+          if (list.length > 0 && pasted.type !== tag.value.itemType) {
+              alert(`列表元素必須為 ${TagTypeNames[tag.value.itemType as TagType]}`);
+              return;
+          }
+          onUpdate({ ...tag, value: { itemType: pasted.type, list: [...list, { ...pasted, name: null }] } });
+      }
+      onExpand(id);
+  };
+
+  const handlePasteReplace = async () => {
+      const pasted = await readClipboardSNBT();
+      if (!pasted) return;
+      onUpdate({ ...pasted, name: tag.name });
+  };
+
   return (
-    <div className="font-mono text-sm select-none">
+    <div className="font-mono text-sm select-none relative" style={{ height: ROW_HEIGHT, paddingLeft: depth * GUIDE_INDENT }}>
+      {Array.from({ length: depth }, (_, level) => (
+        <span key={level} className="absolute top-0 bottom-0 border-l border-gray-700" style={{ left: level * GUIDE_INDENT + 10 }}></span>
+      ))}
       <div 
-        className={`flex items-center py-1 px-2 rounded cursor-pointer group transition-colors duration-100
+        className={`flex items-center h-full px-2 rounded cursor-pointer group transition-colors duration-100
         ${isEditing ? 'bg-gray-800 ring-1 ring-blue-500' : ''}
         ${isDirectMatch ? 'ring-1 ring-yellow-500/50' : ''}
         ${isSelected ? 'bg-blue-900/60 border-l-2 border-blue-400' : 'hover:bg-gray-800 border-l-2 border-transparent'}
         `}
-        style={{ paddingLeft: `${depth * 20}px` }}
-        onMouseEnter={() => setIsHovered(true)}
-        onMouseLeave={() => setIsHovered(false)}
+        style={{ paddingLeft: `${depth * INDENT}px` }}
         onClick={handleClick}
-        onDoubleClick={(e) => { e.stopPropagation(); setIsEditing(true); }}
+        onDoubleClick={(e) => { e.stopPropagation(); startEditing(); }}
       >
         <div className="w-4 h-4 mr-1 flex items-center justify-center text-gray-500">
           {isContainer && (
@@ -246,7 +272,7 @@ export const NBTNode: React.FC<NBTNodeProps> = ({
 
         {isEditing ? (
           <div className="flex items-center gap-2 flex-1" onClick={e => e.stopPropagation()}>
-             {tag.name !== null && (
+             {tag.name !== null && !uuidField?.pair && (
                <input 
                  className="bg-gray-900 border border-gray-600 rounded px-1 text-white w-24"
                  value={editName}
@@ -259,7 +285,7 @@ export const NBTNode: React.FC<NBTNodeProps> = ({
                     className="bg-gray-900 border border-gray-600 rounded px-1 text-white flex-1"
                     value={editValue}
                     onChange={e => setEditValue(e.target.value)}
-                    autoFocus={tag.name === null} onClick={e => e.stopPropagation()}
+                    autoFocus={tag.name === null || !!uuidField?.pair} onClick={e => e.stopPropagation()}
                  />
              )}
              <button onClick={handleSave} className="text-green-400 px-1">V</button>
@@ -267,49 +293,50 @@ export const NBTNode: React.FC<NBTNodeProps> = ({
           </div>
         ) : (
           <div className="flex-1 flex items-center overflow-hidden">
-             {tag.name && <span className={`mr-2 ${isDirectMatch ? 'text-yellow-300 font-bold' : 'text-orange-300'}`}>{tag.name}:</span>}
-             <span className={isDirectMatch && !isContainer ? 'text-yellow-200 font-bold' : ''}>{renderValue()}</span>
+             {tag.name && <span className={`mr-2 shrink-0 ${isDirectMatch ? 'text-yellow-300 font-bold' : 'text-orange-300'}`}>{tag.name}:</span>}
+             <span className={`min-w-0 truncate ${isDirectMatch && !isContainer ? 'text-yellow-200 font-bold' : ''}`}>{renderValue()}</span>
           </div>
         )}
 
         {/* Floating Actions for Single Item */}
         {!isSelected && (
             <div className={`flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity ml-4 bg-gray-900/80 rounded px-1`}>
-            <button onClick={(e) => { e.stopPropagation(); setIsEditing(true); }} className="text-gray-400 hover:text-blue-400"><Edit2 size={14} /></button>
+            <button onClick={(e) => { e.stopPropagation(); startEditing(); }} className="text-gray-400 hover:text-blue-400"><Edit2 size={14} /></button>
+            {textField && <button onClick={(e) => { e.stopPropagation(); onEditText(indices, tag, textField); }} title="編輯文字元件" className="text-gray-400 hover:text-green-400"><Type size={14} /></button>}
+            {uuidField && <button onClick={(e) => { e.stopPropagation(); writeUUID(crypto.randomUUID()); }} title="產生隨機 UUID" className="text-gray-400 hover:text-green-400"><Shuffle size={14} /></button>}
+            {uuidField && parent?.type === TagType.Compound && tag.name !== null && (
+                <button onClick={(e) => { e.stopPropagation(); handleConvertUUID(); }} title={uuidField.pair ? "轉為 IntArray (1.16+)" : "轉為 Most/Least (1.16 前)"} className="text-gray-400 hover:text-yellow-400"><ArrowLeftRight size={14} /></button>
+            )}
             {isContainer && <button onClick={(e) => { e.stopPropagation(); handleAddChild(tag.type); }} className="text-gray-400 hover:text-green-400"><Plus size={14} /></button>}
-            <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="text-gray-400 hover:text-red-400"><Trash size={14} /></button>
+            <button onClick={(e) => { e.stopPropagation(); handleCopySNBT(); }} title="複製為 SNBT" className="text-gray-400 hover:text-blue-400"><ClipboardCopy size={14} /></button>
+            {isContainer && <button onClick={(e) => { e.stopPropagation(); handlePasteChild(); }} title="貼上 SNBT 為子項" className="text-gray-400 hover:text-green-400"><ClipboardPaste size={14} /></button>}
+            <button onClick={(e) => { e.stopPropagation(); onCopyPath(indices); }} title="複製 NBT 路徑" className="text-gray-400 hover:text-blue-400"><Route size={14} /></button>
+            <button onClick={(e) => { e.stopPropagation(); handlePasteReplace(); }} title="以 SNBT 取代" className="text-gray-400 hover:text-yellow-400"><Replace size={14} /></button>
+            <button onClick={(e) => { e.stopPropagation(); onDeleteAt(indices); }} className="text-gray-400 hover:text-red-400"><Trash size={14} /></button>
             </div>
         )}
       </div>
-
-      {isContainer && isExpanded && (
-        <div className="border-l border-gray-700 ml-[10px]">
-          {tag.type === TagType.Compound && (tag.value as NBTTag[]).map((child, idx) => (
-             <NBTNode 
-                key={idx} tag={child} depth={depth + 1} path={`${path}.${child.name}`}
-                onUpdate={(updated) => handleChildUpdate(idx, updated)}
-                onDelete={() => handleChildDelete(idx)}
-                onAdd={handleAddChild}
-                searchTerm={searchTerm}
-                selectedPaths={selectedPaths}
-                onSelect={onSelect}
-                expandSignal={expandSignal}
-             />
-          ))}
-          {tag.type === TagType.List && (tag.value.list as NBTTag[]).map((child, idx) => (
-             <NBTNode 
-                key={idx} tag={child} depth={depth + 1} path={`${path}[${idx}]`}
-                onUpdate={(updated) => handleChildUpdate(idx, updated)}
-                onDelete={() => handleChildDelete(idx)}
-                onAdd={handleAddChild}
-                searchTerm={searchTerm}
-                selectedPaths={selectedPaths}
-                onSelect={onSelect}
-                expandSignal={expandSignal}
-             />
-          ))}
-        </div>
-      )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Rows are re-created on every flatten, so compare the address by value
+const sameIndices = (a: number[], b: number[]) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+export const NBTNode = React.memo(NBTNodeRow, (prev, next) =>
+  prev.tag === next.tag &&
+  prev.depth === next.depth &&
+  prev.parent === next.parent &&
+  prev.id === next.id &&
+  prev.isExpanded === next.isExpanded &&
+  prev.isSelected === next.isSelected &&
+  prev.searchTerm === next.searchTerm &&
+  prev.onToggle === next.onToggle &&
+  prev.onExpand === next.onExpand &&
+  prev.onSelect === next.onSelect &&
+  prev.onUpdateAt === next.onUpdateAt &&
+  prev.onDeleteAt === next.onDeleteAt &&
+  prev.onCopyPath === next.onCopyPath &&
+  prev.onEditText === next.onEditText &&
+  sameIndices(prev.indices, next.indices)
+);
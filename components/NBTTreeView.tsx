@@ -0,0 +1,216 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback, useLayoutEffect } from 'react';
+import { TagType, NBTTag } from '../types';
+import { flattenVisible, updateAt, collectContainerIds, collectAncestorIds, getNodeId, NodeId } from '../utils/treeUtils';
+import { NBTPath, PathMatch } from '../utils/nbtPath';
+import { NBTNode, ROW_HEIGHT } from './NBTNode';
+import { isUUIDCandidate } from '../utils/uuid';
+import { TextFieldKind, isTextList } from '../utils/textComponent';
+import { TextComponentEditor } from './TextComponentEditor';
+
+export type ExpandSignal = {
+    id: number;
+    type: 'expand_all' | 'collapse_all' | 'expand_selected' | 'collapse_selected' | 'reveal';
+    targets?: Set<NodeId>;
+};
+
+interface NBTTreeViewProps {
+  root: NBTTag;
+  onChange: (newRoot: NBTTag) => void;
+  onDeleteRoot: () => void;
+  searchTerm: string;
+  searchHits: PathMatch[];
+  selectedIds: Set<NodeId>;
+  onSelect: (id: NodeId, type: 'single' | 'toggle' | 'range') => void;
+  expandSignal: ExpandSignal;
+}
+
+const OVERSCAN = 10;
+const PADDING = 16;
+
+const initialExpanded = (root: NBTTag) => {
+    const expanded = new Set<NodeId>([getNodeId(root)]);
+    const children: NBTTag[] = root.type === TagType.Compound ? root.value : root.type === TagType.List ? root.value.list : [];
+    children.forEach(child => {
+        if (child.type === TagType.Compound || child.type === TagType.List) expanded.add(getNodeId(child));
+    });
+    return expanded;
+};
+
+// Renders the tree as a flat list of fixed-height rows and only mounts the ones in view
+export const NBTTreeView: React.FC<NBTTreeViewProps> = ({
+    root, onChange, onDeleteRoot, searchTerm, searchHits, selectedIds, onSelect, expandSignal
+}) => {
+  const [expanded, setExpanded] = useState<Set<NodeId>>(() => initialExpanded(root));
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Row callbacks read the latest props through refs so they stay stable and memoized rows can skip rendering
+  const rootRef = useRef(root);
+  const onChangeRef = useRef(onChange);
+  const onDeleteRootRef = useRef(onDeleteRoot);
+  const onSelectRef = useRef(onSelect);
+  rootRef.current = root;
+  onChangeRef.current = onChange;
+  onDeleteRootRef.current = onDeleteRoot;
+  onSelectRef.current = onSelect;
+
+  const handleUpdateAt = useCallback((indices: number[], updatedTag: NBTTag) => {
+      try {
+          onChangeRef.current(updateAt(rootRef.current, indices, () => updatedTag));
+      } catch (e) {
+          alert(e instanceof Error ? e.message : String(e));
+      }
+  }, []);
+
+  const handleDeleteAt = useCallback((indices: number[]) => {
+      if (indices.length === 0) {
+          onDeleteRootRef.current();
+          return;
+      }
+      onChangeRef.current(updateAt(rootRef.current, indices, () => null));
+  }, []);
+
+  const handleCopyPath = useCallback(async (indices: number[]) => {
+      const text = NBTPath.format(NBTPath.fromIndices(rootRef.current, indices));
+      try {
+          await navigator.clipboard.writeText(text);
+      } catch (e) {
+          prompt("無法寫入剪貼簿，請手動複製:", text);
+      }
+  }, []);
+
+  const [textEdit, setTextEdit] = useState<{ indices: number[]; tag: NBTTag; kind: TextFieldKind } | null>(null);
+
+  const handleEditText = useCallback((indices: number[], tag: NBTTag, kind: TextFieldKind) => setTextEdit({ indices, tag, kind }), []);
+
+  const handleToggle = useCallback((id: NodeId) => {
+      setExpanded(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) next.delete(id);
+          else next.add(id);
+          return next;
+      });
+  }, []);
+
+  const handleExpand = useCallback((id: NodeId) => {
+      setExpanded(prev => prev.has(id) ? prev : new Set(prev).add(id));
+  }, []);
+
+  const handleSelect = useCallback((id: NodeId, type: 'single' | 'toggle' | 'range') => onSelectRef.current(id, type), []);
+
+  // Node to scroll into view once the rows reflect a 'reveal' signal
+  const pendingReveal = useRef<Set<NodeId> | null>(null);
+
+  // Handle Global Expansion Signals (ignore whatever signal was current when this view mounted)
+  const handledSignal = useRef(expandSignal.id);
+  useEffect(() => {
+    if (expandSignal.id === handledSignal.current) return;
+    handledSignal.current = expandSignal.id;
+
+    if (expandSignal.type === 'expand_all') {
+        setExpanded(collectContainerIds(rootRef.current));
+    } else if (expandSignal.type === 'collapse_all') {
+        setExpanded(new Set());
+    } else if (expandSignal.type === 'expand_selected') {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            expandSignal.targets?.forEach(p => next.add(p));
+            return next;
+        });
+    } else if (expandSignal.type === 'collapse_selected') {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            expandSignal.targets?.forEach(p => next.delete(p));
+            return next;
+        });
+    } else if (expandSignal.type === 'reveal' && expandSignal.targets) {
+        const ancestors = new Set<NodeId>();
+        collectAncestorIds(rootRef.current, expandSignal.targets, ancestors);
+        pendingReveal.current = expandSignal.targets;
+        setExpanded(prev => {
+            const next = new Set(prev);
+            ancestors.forEach(p => next.add(p));
+            return next;
+        });
+    }
+  }, [expandSignal]);
+
+  // Open every container on the way to a search hit
+  useEffect(() => {
+    if (searchHits.length === 0) return;
+    const ancestors = new Set<NodeId>();
+    const root = rootRef.current;
+    searchHits.forEach(({ indices }) => {
+        let tag = root;
+        for (const idx of indices) {
+            ancestors.add(getNodeId(tag));
+            tag = tag.type === TagType.Compound ? tag.value[idx] : tag.value.list[idx];
+        }
+    });
+    setExpanded(prev => {
+        const next = new Set(prev);
+        ancestors.forEach(p => next.add(p));
+        return next.size === prev.size ? prev : next;
+    });
+  }, [searchHits]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewportHeight(el.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const rows = useMemo(() => flattenVisible(root, expanded), [root, expanded]);
+
+  useEffect(() => {
+    const targets = pendingReveal.current;
+    const el = scrollRef.current;
+    if (!targets || !el) return;
+    const index = rows.findIndex(row => targets.has(row.id));
+    if (index === -1) return;
+    pendingReveal.current = null;
+    el.scrollTop = Math.max(0, PADDING + index * ROW_HEIGHT - el.clientHeight / 3);
+  }, [rows]);
+
+  const start = Math.max(0, Math.floor((scrollTop - PADDING) / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop - PADDING + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div ref={scrollRef} className="absolute inset-0 overflow-auto p-4" onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <div style={{ paddingTop: start * ROW_HEIGHT, paddingBottom: (rows.length - end) * ROW_HEIGHT + 80 }}>
+        {rows.slice(start, end).map(row => (
+          <NBTNode
+            key={row.id} tag={row.tag} depth={row.depth} id={row.id} indices={row.indices}
+            parent={isUUIDCandidate(row.tag) || row.tag.type === TagType.String || isTextList(row.parent) ? row.parent : null}
+            isExpanded={expanded.has(row.id)}
+            isSelected={selectedIds.has(row.id)}
+            searchTerm={searchTerm}
+            onToggle={handleToggle}
+            onExpand={handleExpand}
+            onSelect={handleSelect}
+            onUpdateAt={handleUpdateAt}
+            onDeleteAt={handleDeleteAt}
+            onCopyPath={handleCopyPath}
+            onEditText={handleEditText}
+          />
+        ))}
+      </div>
+      {textEdit && (
+        <TextComponentEditor
+          fieldName={NBTPath.format(NBTPath.fromIndices(root, textEdit.indices))}
+          kind={textEdit.kind}
+          value={textEdit.tag.value}
+          onSave={json => {
+            handleUpdateAt(textEdit.indices, { ...textEdit.tag, value: json });
+            setTextEdit(null);
+          }}
+          onClose={() => setTextEdit(null)}
+        />
+      )}
+    </div>
+  );
+};
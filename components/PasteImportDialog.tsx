@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { NBTTag, NBTFormat, CompressionType } from '../types';
+import { NBTParser, NBT_ENCODINGS, decompress } from '../utils/nbtParser';
+import { X, ClipboardPaste } from 'lucide-react';
+
+interface PasteImportDialogProps {
+  onImport: (result: { filename: string; root: NBTTag; compression: CompressionType; format: NBTFormat }) => void;
+  onClose: () => void;
+}
+
+type InputMode = 'auto' | 'hex' | 'base64';
+
+// Accepts typical dump formats: "0a 00 00", "0x0a,0x00", "0A:00:00" or plain base64
+const decodeInput = (text: string, mode: InputMode): Uint8Array => {
+  const hex = text.replace(/0x/gi, '').replace(/[\s,:]/g, '');
+  const looksHex = /^[0-9a-fA-F]*$/.test(hex) && hex.length % 2 === 0;
+
+  if (mode === 'hex' || (mode === 'auto' && looksHex)) {
+    if (!looksHex) throw new Error("無效的十六進位資料");
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    return bytes;
+  }
+
+  const b64 = text.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    const bin = atob(b64);
+    return Uint8Array.from(bin, c => c.charCodeAt(0));
+  } catch (e) {
+    throw new Error("無效的 Base64 資料");
+  }
+};
+
+export const PasteImportDialog: React.FC<PasteImportDialogProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<InputMode>('auto');
+  const [encoding, setEncoding] = useState('java-network');
+  const [filename, setFilename] = useState('packet.nbt');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      const bytes = decodeInput(text, mode);
+      if (bytes.length === 0) throw new Error("沒有資料");
+      const { data, compression } = decompress(bytes);
+      const format = NBT_ENCODINGS[encoding].format;
+      const root = NBTParser.read(data.slice().buffer, format);
+      onImport({ filename: filename || 'packet.nbt', root, compression, format });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2"><ClipboardPaste size={18} /> 從十六進位 / Base64 匯入</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 text-sm">
+          <textarea
+            className="w-full h-48 bg-gray-950 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 focus:border-blue-500 outline-none resize-none"
+            placeholder="0a 00 00 08 00 04 6e 61 6d 65 ..."
+            value={text}
+            onChange={e => { setText(e.target.value); setError(null); }}
+            autoFocus
+          />
+          <div className="grid grid-cols-3 gap-4">
+            <label className="flex flex-col gap-1 text-gray-400 text-xs">
+              資料格式
+              <select value={mode} onChange={e => setMode(e.target.value as InputMode)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200">
+                <option value="auto">自動偵測</option>
+                <option value="hex">十六進位</option>
+                <option value="base64">Base64</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-400 text-xs">
+              NBT 編碼
+              <select value={encoding} onChange={e => setEncoding(e.target.value)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200">
+                {Object.entries(NBT_ENCODINGS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-400 text-xs">
+              分頁名稱
+              <input value={filename} onChange={e => setFilename(e.target.value)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200" />
+            </label>
+          </div>
+          {error && <div className="text-red-400 text-xs">解析失敗: {error}</div>}
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded text-gray-300 hover:bg-gray-700">取消</button>
+            <button onClick={handleImport} disabled={!text.trim()} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40">匯入</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Route, Crosshair, ListChecks, FileOutput } from 'lucide-react';
+
+interface PathQueryBarProps {
+  onJump: (path: string) => void;
+  onSelect: (path: string) => void;
+  onExtract: (path: string) => void;
+}
+
+export const PathQueryBar: React.FC<PathQueryBarProps> = ({ onJump, onSelect, onExtract }) => {
+  const [path, setPath] = useState('');
+
+  const run = (action: (path: string) => void) => {
+    if (path.trim()) action(path);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="relative flex-1">
+        <Route className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 w-4 h-4" />
+        <input
+          type="text"
+          placeholder="NBT 路徑，例如 Inventory[{Slot:3b}].tag"
+          title="Minecraft NBT 路徑 (按 Enter 跳至)"
+          className="w-full bg-gray-950 border border-gray-700 rounded-md py-1.5 pl-10 pr-4 text-sm text-gray-200 font-mono focus:border-blue-500 outline-none"
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') run(onJump); }}
+        />
+      </div>
+      <button onClick={() => run(onJump)} title="跳至" className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800"><Crosshair size={16} /></button>
+      <button onClick={() => run(onSelect)} title="選取全部符合" className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800"><ListChecks size={16} /></button>
+      <button onClick={() => run(onExtract)} title="擷取為新分頁" className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-gray-800"><FileOutput size={16} /></button>
+    </div>
+  );
+};
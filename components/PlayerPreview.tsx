@@ -1,74 +1,102 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { NBTTag, TagType } from '../types';
-import { X, Shield, Heart, Zap, Drumstick, Gem, Archive, Download } from 'lucide-react';
+import { ItemStack, readItemStack } from '../utils/itemStack';
+import { ItemTooltip } from './ItemTooltip';
+import { TexturePack, resolveItemTexture } from '../utils/textureIndex';
+import { SlotRef, InventorySection, moveItem, transferItem, deleteItem, duplicateItem, setItemCount } from '../utils/playerInventory';
+import { X, Shield, Heart, Zap, Drumstick, Gem, Archive, Download, Copy, Trash2, ArrowLeftRight, ImagePlus } from 'lucide-react';
 
 interface PlayerPreviewProps {
   root: NBTTag;
+  playerName?: string | null; // From usercache.json, when the file is named after the player's UUID
+  onChange?: (root: NBTTag) => void; // Inventory edits; each call is one undo step. Omitted for read-only views
+  textures: TexturePack[];
+  onLoadTextures: (files: File[]) => void;
+  onClearTextures: () => void;
   onClose: () => void;
 }
 
-interface Item {
-  id: string;
-  count: number;
-  slot?: number;
-  tag?: any;
-}
+type Item = ItemStack;
 
 const findTag = (tag: NBTTag, name: string): NBTTag | undefined => {
   if (tag.type !== TagType.Compound) return undefined;
   return (tag.value as NBTTag[]).find(t => t.name === name);
 };
 
+// Reads both the legacy (Count/tag) and the 1.20.5+ (count/components) layout
 const parseItems = (listTag: NBTTag | undefined): Item[] => {
   if (!listTag || listTag.type !== TagType.List) return [];
-  return (listTag.value.list as NBTTag[]).map(itemTag => {
-    const idTag = findTag(itemTag, 'id');
-    const countTag = findTag(itemTag, 'Count');
-    const slotTag = findTag(itemTag, 'Slot');
-    const tagTag = findTag(itemTag, 'tag');
-    
-    const rawId = idTag?.value || 'air';
-    
-    return {
-      id: rawId,
-      count: countTag?.value || 0,
-      slot: slotTag?.value,
-      tag: tagTag
-    };
-  });
+  return (listTag.value.list as NBTTag[]).map(itemTag =>
+    readItemStack(itemTag) ?? { id: 'air', count: 0, format: 'legacy' }
+  );
 };
 
-const getItemImageUrl = (id: string) => {
-  const cleanId = id.replace('minecraft:', '');
-  return `https://raw.githubusercontent.com/InventivetalentDev/minecraft-assets/1.20.1/assets/minecraft/textures/item/${cleanId}.png`;
+// The magenta/black checkerboard the game itself shows for a missing texture; also every icon until a pack is loaded,
+// since icons only come from local jars and resource packs
+const MISSING_TEXTURE_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#f0f 25%, #000 0 50%, #f0f 0 75%, #000 0)',
+  backgroundSize: '50% 50%',
 };
 
-const ItemSlot: React.FC<{ item?: Item, label?: string }> = ({ item, label }) => {
+// Slots of Inventory and EnderItems are editable; curios stay read-only
+interface SlotEditing {
+  slotRef: SlotRef;
+  selected: boolean;
+  onSelect: (ref: SlotRef | null) => void;
+  onMove: (from: SlotRef, to: SlotRef) => void;
+}
+
+const SLOT_MIME = 'application/x-nbt-slot';
+
+const ItemSlot: React.FC<{ item?: Item, label?: string, editing?: SlotEditing, textures: TexturePack[] }> = ({ item, label, editing, textures }) => {
   const isEmpty = !item || item.id === 'air' || item.id === 'minecraft:air';
+  const icon = isEmpty ? null : resolveItemTexture(textures, item.id);
+
+  const dragProps = editing ? {
+    draggable: !isEmpty,
+    onClick: () => editing.onSelect(isEmpty ? null : editing.slotRef),
+    onDragStart: (e: React.DragEvent) => e.dataTransfer.setData(SLOT_MIME, JSON.stringify(editing.slotRef)),
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(SLOT_MIME)) return;
+      e.preventDefault();
+      e.stopPropagation();
+    },
+    onDrop: (e: React.DragEvent) => {
+      const data = e.dataTransfer.getData(SLOT_MIME);
+      if (!data) return;
+      e.preventDefault();
+      e.stopPropagation();
+      editing.onMove(JSON.parse(data), editing.slotRef);
+    },
+  } : {};
 
   return (
     /* 這裡增加了 hover:z-[70] 確保滑鼠懸停時格子處於最上層 */
-    <div className={`relative group w-10 h-10 bg-gray-700 border flex items-center justify-center rounded-sm transition-colors hover:border-purple-400 hover:z-[70] ${isEmpty ? 'border-gray-600' : 'border-gray-500'}`}>
+    <div {...dragProps} className={`relative group w-10 h-10 bg-gray-700 border flex items-center justify-center rounded-sm transition-colors hover:border-purple-400 hover:z-[70] ${editing && !isEmpty ? 'cursor-grab' : ''} ${editing?.selected ? 'border-yellow-400 ring-1 ring-yellow-400' : isEmpty ? 'border-gray-600' : 'border-gray-500'}`}>
       {label && isEmpty && <span className="text-[10px] text-gray-500 uppercase select-none">{label}</span>}
       {!isEmpty && item && (
         <>
-          <img 
-            src={getItemImageUrl(item.id)} 
-            alt={item.id} 
-            className="w-8 h-8 object-contain pixelated"
-            onError={(e) => {
-                (e.target as HTMLImageElement).src = 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0ibm9uZSIgc3Ryb2tlPSIjNzc3IiBzdHJva2Utd2lkdGg9IjIiPjxyZWN0IHg9IjMiIHk9IjMiIHdpZHRoPSIxOCIgaGVpZ2h0PSIxOCIgLz48L3N2Zz4='; 
-            }}
-          />
+          {icon ? (
+            <img 
+              src={icon} 
+              alt={item.id} 
+              className="w-8 h-8 object-cover object-top pixelated pointer-events-none"
+              onError={(e) => {
+                  (e.target as HTMLImageElement).src = 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0ibm9uZSIgc3Ryb2tlPSIjNzc3IiBzdHJva2Utd2lkdGg9IjIiPjxyZWN0IHg9IjMiIHk9IjMiIHdpZHRoPSIxOCIgaGVpZ2h0PSIxOCIgLz48L3N2Zz4='; 
+              }}
+            />
+          ) : (
+            <div className="w-8 h-8 opacity-80 pointer-events-none" style={MISSING_TEXTURE_STYLE} />
+          )}
           {item.count > 1 && (
             <span className="absolute bottom-0 right-0 text-white text-[10px] font-bold leading-none drop-shadow-md px-0.5 pointer-events-none">
               {item.count}
             </span>
           )}
           {/* 修改後的 Tooltip: 使用居中定位與極高 z-index */}
-          <div className="absolute z-[100] bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block bg-gray-900 text-white text-[11px] p-2 rounded border border-purple-500 shadow-2xl pointer-events-none min-w-[120px] text-center">
-            <p className="font-bold text-purple-300 break-all whitespace-normal leading-tight">{item.id}</p>
-            {item.tag && <p className="text-gray-400 italic text-[9px] mt-1 border-t border-gray-700 pt-1">包含 NBT 數據</p>}
+          <div className="absolute z-[100] bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block bg-gray-900 text-white text-[11px] p-2 rounded border border-purple-500 shadow-2xl pointer-events-none min-w-[180px] max-w-[280px] w-max">
+            <ItemTooltip item={item} />
+            {!icon && <p className="text-pink-400 text-[9px] mt-1">材質包中找不到此物品的材質</p>}
             <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-gray-900"></div>
           </div>
         </>
@@ -77,8 +105,11 @@ const ItemSlot: React.FC<{ item?: Item, label?: string }> = ({ item, label }) =>
   );
 };
 
-export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) => {
-  
+export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, playerName, onChange, textures, onLoadTextures, onClearTextures, onClose }) => {
+  const textureInputRef = useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = useState<SlotRef | null>(null);
+  const [countDraft, setCountDraft] = useState('');
+
   const parsedData = useMemo(() => {
     // 1. 基礎數據
     const health = findTag(root, 'Health')?.value || findTag(root, 'HealF')?.value || 20;
@@ -160,6 +191,42 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
     return { health, maxHealth, food, xp, armor, inventory, hotbar, offhand, enderInventory, curiosItems };
   }, [root]);
 
+  const selectedItem = useMemo(() => {
+    if (!selected) return null;
+    const list = findTag(root, selected.section);
+    const tag = list?.type === TagType.List ? (list.value.list as NBTTag[]).find(t => Number(findTag(t, 'Slot')?.value) === selected.slot) : undefined;
+    return tag ? readItemStack(tag) : null;
+  }, [root, selected]);
+
+  useEffect(() => {
+    setCountDraft(selectedItem ? String(selectedItem.count) : '');
+  }, [selectedItem]);
+
+  const edit = (change: (root: NBTTag) => NBTTag, nextSelection: SlotRef | null = selected) => {
+    if (!onChange) return;
+    try {
+      const next = change(root);
+      if (next !== root) onChange(next);
+      setSelected(nextSelection);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const editing = (section: InventorySection, slot: number): SlotEditing | undefined => onChange && {
+    slotRef: { section, slot },
+    selected: selected?.section === section && selected.slot === slot,
+    onSelect: setSelected,
+    onMove: (from, to) => edit(r => moveItem(r, from, to), to),
+  };
+
+  const commitCount = () => {
+    if (!selected || !selectedItem || countDraft === String(selectedItem.count)) return;
+    const count = Number(countDraft);
+    edit(r => setItemCount(r, selected, count));
+    setCountDraft(String(selectedItem.count)); // Replaced by the effect once the new root arrives
+  };
+
   const handleExportJson = () => {
     const cleanItem = (i: Item | null | undefined) => {
         if (!i || i.id === 'air' || i.id === 'minecraft:air') return null;
@@ -189,6 +256,10 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
         if (typeof value === 'bigint') {
             return value.toString();
         }
+        // Typed arrays (Byte/Int/LongArray) would otherwise serialize as index-keyed objects
+        if (ArrayBuffer.isView(value)) {
+            return Array.from<number | bigint>(value as Int8Array | Int32Array | BigInt64Array);
+        }
         return value;
     }, 2);
 
@@ -210,7 +281,7 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
         {/* Header */}
         <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
           <div className="flex items-center gap-4">
-            <h2 className="text-xl font-bold text-white">玩家資料預覽</h2>
+            <h2 className="text-xl font-bold text-white">玩家資料預覽{playerName && <span className="ml-2 text-blue-300">{playerName}</span>}</h2>
             <div className="flex gap-4 text-sm font-mono">
               <div className="flex items-center text-red-400 gap-1" title="Health">
                 <Heart size={16} fill="currentColor" /> {Math.round(parsedData.health)} / {parsedData.maxHealth}
@@ -238,17 +309,43 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
                    <Shield size={12} /> 裝備
                 </h3>
                 <div className="flex flex-col gap-2">
-                  <ItemSlot item={parsedData.armor[103]} label="頭" />
-                  <ItemSlot item={parsedData.armor[102]} label="身" />
-                  <ItemSlot item={parsedData.armor[101]} label="腿" />
-                  <ItemSlot item={parsedData.armor[100]} label="腳" />
+                  <ItemSlot item={parsedData.armor[103]} label="頭" editing={editing('Inventory', 103)} textures={textures} />
+                  <ItemSlot item={parsedData.armor[102]} label="身" editing={editing('Inventory', 102)} textures={textures} />
+                  <ItemSlot item={parsedData.armor[101]} label="腿" editing={editing('Inventory', 101)} textures={textures} />
+                  <ItemSlot item={parsedData.armor[100]} label="腳" editing={editing('Inventory', 100)} textures={textures} />
                 </div>
                 <div className="w-8 h-px bg-gray-700 my-1"></div>
-                <ItemSlot item={parsedData.offhand} label="副手" />
+                <ItemSlot item={parsedData.offhand} label="副手" editing={editing('Inventory', -106)} textures={textures} />
             </div>
 
             {/* Export Button */}
-            <div className="w-full pt-6">
+            <div className="w-full pt-6 flex flex-col gap-2">
+                <input
+                    type="file"
+                    ref={textureInputRef}
+                    accept=".jar,.zip"
+                    multiple
+                    className="hidden"
+                    onChange={e => {
+                        if (e.target.files) onLoadTextures(Array.from(e.target.files as ArrayLike<File>));
+                        e.target.value = '';
+                    }}
+                />
+                <button
+                    onClick={() => textureInputRef.current?.click()}
+                    className="w-full flex items-center justify-center gap-2 bg-gray-700/40 hover:bg-gray-700 text-gray-300 border border-gray-600 rounded py-2 text-xs font-bold transition-all"
+                    title="載入用戶端 jar、模組 jar 或資源包 zip 作為物品圖示 (後載入的優先)"
+                >
+                    <ImagePlus size={14} /> 載入材質包
+                </button>
+                {textures.length > 0 ? (
+                    <div className="flex items-center justify-between text-[10px] text-gray-500">
+                        <span className="truncate" title={textures.map(t => `${t.name} (${t.size})`).join('\n')}>{textures.length} 個材質包</span>
+                        <button onClick={onClearTextures} className="hover:text-white">清除</button>
+                    </div>
+                ) : (
+                    <div className="text-[10px] text-gray-500">未載入材質包，物品圖示以缺失材質顯示</div>
+                )}
                 <button 
                     onClick={handleExportJson}
                     className="w-full flex items-center justify-center gap-2 bg-blue-600/20 hover:bg-blue-600/40 text-blue-300 border border-blue-500/30 hover:border-blue-400 rounded py-2 text-xs font-bold transition-all"
@@ -266,14 +363,14 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
              {/* Main Inventory */}
              <div className="grid grid-cols-9 gap-1 mb-4">
                 {parsedData.inventory.map((item, idx) => (
-                    <ItemSlot key={`inv-${idx}`} item={item} />
+                    <ItemSlot key={`inv-${idx}`} item={item} editing={editing('Inventory', idx + 9)} textures={textures} />
                 ))}
              </div>
              
              {/* Hotbar */}
              <div className="grid grid-cols-9 gap-1">
                 {parsedData.hotbar.map((item, idx) => (
-                    <ItemSlot key={`hot-${idx}`} item={item} />
+                    <ItemSlot key={`hot-${idx}`} item={item} editing={editing('Inventory', idx)} textures={textures} />
                 ))}
              </div>
 
@@ -285,9 +382,38 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
              </h3>
              <div className="grid grid-cols-9 gap-1">
                 {parsedData.enderInventory.map((item, idx) => (
-                    <ItemSlot key={`ender-${idx}`} item={item} />
+                    <ItemSlot key={`ender-${idx}`} item={item} editing={editing('EnderItems', idx)} textures={textures} />
                 ))}
              </div>
+
+             {onChange && (
+               <div className="w-full mt-6 flex items-center gap-2 bg-gray-800/60 border border-gray-700/50 rounded px-3 py-2 text-xs min-h-[44px]">
+                 {selected && selectedItem ? (
+                   <>
+                     <span className="font-mono text-purple-300 truncate" title={selectedItem.id}>{selectedItem.id}</span>
+                     <label className="flex items-center gap-1 text-gray-400 shrink-0">
+                       數量
+                       <input
+                         type="number"
+                         min={1}
+                         value={countDraft}
+                         onChange={e => setCountDraft(e.target.value)}
+                         onBlur={commitCount}
+                         onKeyDown={e => { if (e.key === 'Enter') commitCount(); }}
+                         className="w-14 bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-gray-200 outline-none focus:border-blue-500"
+                       />
+                     </label>
+                     <div className="ml-auto flex items-center gap-1 shrink-0">
+                       <button onClick={() => edit(r => duplicateItem(r, selected))} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-700 text-gray-300" title="複製到第一個空格"><Copy size={12} /> 複製</button>
+                       <button onClick={() => edit(r => transferItem(r, selected), null)} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-700 text-gray-300"><ArrowLeftRight size={12} /> {selected.section === 'Inventory' ? '移至終界箱' : '移至物品欄'}</button>
+                       <button onClick={() => edit(r => deleteItem(r, selected), null)} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-red-900/40 text-red-400"><Trash2 size={12} /> 刪除</button>
+                     </div>
+                   </>
+                 ) : (
+                   <span className="text-gray-500 italic">點選物品以編輯數量、複製或刪除；拖曳物品可移動或交換格子。</span>
+                 )}
+               </div>
+             )}
           </div>
 
           {/* Right Column: Curios (修正了滾動條遮蓋問題) */}
@@ -306,7 +432,7 @@ export const PlayerPreview: React.FC<PlayerPreviewProps> = ({ root, onClose }) =
                             </div>
                             <div className="flex flex-wrap gap-2">
                                 {curio.items.map((item, i) => (
-                                    <ItemSlot key={i} item={item} />
+                                    <ItemSlot key={i} item={item} textures={textures} />
                                 ))}
                             </div>
                         </div>
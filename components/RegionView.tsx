@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { RegionData } from '../types';
+import { ChunkCompressionNames } from '../utils/regionFile';
+import { Grid3x3, FolderOpen } from 'lucide-react';
+
+interface RegionViewProps {
+  region: RegionData;
+  openChunks: Set<number>; // Chunk indices that already have a tab
+  onOpenChunk: (index: number) => void;
+}
+
+const formatTimestamp = (ts: number) => ts > 0 ? new Date(ts * 1000).toLocaleString() : '—';
+
+export const RegionView: React.FC<RegionViewProps> = ({ region, openChunks, onOpenChunk }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const chunkCount = region.chunks.filter(Boolean).length;
+  const selectedChunk = selected !== null ? region.chunks[selected] : null;
+
+  // Global chunk coordinates when the filename tells us where the region sits
+  const globalCoords = (x: number, z: number) => region.regionX !== null && region.regionZ !== null
+    ? `${region.regionX * 32 + x}, ${region.regionZ * 32 + z}`
+    : `${x}, ${z}`;
+
+  return (
+    <div className="flex gap-6 items-start" onClick={e => e.stopPropagation()}>
+      <div className="bg-gray-900/40 p-4 rounded-lg border border-gray-700/50">
+        <h3 className="text-gray-400 text-[10px] font-bold uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+          <Grid3x3 size={12} /> 區塊 ({chunkCount} / {region.chunks.length})
+        </h3>
+        <div className="grid gap-px bg-gray-800" style={{ gridTemplateColumns: 'repeat(32, 14px)' }}>
+          {region.chunks.map((chunk, idx) => (
+            <div
+              key={idx}
+              title={chunk ? `[${globalCoords(chunk.x, chunk.z)}] ${formatTimestamp(chunk.timestamp)}` : undefined}
+              onClick={() => chunk && setSelected(idx)}
+              onDoubleClick={() => chunk && !chunk.external && onOpenChunk(idx)}
+              className={`w-[14px] h-[14px]
+                ${!chunk ? 'bg-gray-950' : chunk.external ? 'bg-orange-700 cursor-pointer' : openChunks.has(idx) ? 'bg-blue-500 cursor-pointer' : 'bg-emerald-700 hover:bg-emerald-500 cursor-pointer'}
+                ${selected === idx ? 'ring-1 ring-yellow-400 z-10' : ''}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-gray-900/40 p-4 rounded-lg border border-gray-700/50 min-w-[240px] text-sm font-mono">
+        {selectedChunk ? (
+          <div className="flex flex-col gap-2">
+            <div className="text-gray-400">區塊 <span className="text-white">[{globalCoords(selectedChunk.x, selectedChunk.z)}]</span></div>
+            <div className="text-gray-400">區域內位置 <span className="text-white">{selectedChunk.x}, {selectedChunk.z}</span></div>
+            <div className="text-gray-400">最後儲存 <span className="text-white">{formatTimestamp(selectedChunk.timestamp)}</span></div>
+            <div className="text-gray-400">壓縮 <span className="text-white">{ChunkCompressionNames[selectedChunk.compression] ?? selectedChunk.compression}</span></div>
+            <div className="text-gray-400">大小 <span className="text-white">{selectedChunk.data.length} bytes</span></div>
+            {selectedChunk.external ? (
+              <div className="text-orange-400 text-xs">此區塊儲存在外部 .mcc 檔案，無法開啟。</div>
+            ) : (
+              <button onClick={() => onOpenChunk(selected!)} className="mt-2 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white px-4 py-1.5 rounded">
+                <FolderOpen size={14} /> {openChunks.has(selected!) ? '切換至分頁' : '開啟區塊'}
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="text-gray-600 text-xs italic">選擇一個區塊以檢視資訊，雙擊開啟。</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { NBTFile } from '../types';
+import { CompressionNames } from '../utils/nbtParser';
+import { X, Archive, Check } from 'lucide-react';
+
+export interface ArchiveSummaryEntry {
+  fileId: string;
+  filename: string;
+  path: string; // Entry path inside the zip
+  size: number;
+}
+
+interface SaveAllDialogProps {
+  files: NBTFile[]; // Tabs with changes to save, chunk tabs already folded into their region
+  initialSelection: string[];
+  onSave: (fileIds: string[], archiveName: string) => Promise<ArchiveSummaryEntry[] | null>;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+export const SaveAllDialog: React.FC<SaveAllDialogProps> = ({ files, initialSelection, onSave, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(initialSelection));
+  const [archiveName, setArchiveName] = useState('nbt_export.zip');
+  const [saving, setSaving] = useState(false);
+  const [summary, setSummary] = useState<{ name: string; entries: ArchiveSummaryEntry[] } | null>(null);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const save = async () => {
+    const trimmed = archiveName.trim() || 'nbt_export.zip';
+    const name = trimmed.toLowerCase().endsWith('.zip') ? trimmed : `${trimmed}.zip`;
+    setSaving(true);
+    try {
+      const entries = await onSave(files.filter(f => selected.has(f.id)).map(f => f.id), name);
+      if (entries) setSummary({ name, entries });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2"><Archive size={18} /> 全部儲存為 ZIP</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {summary ? (
+          <div className="flex-1 min-h-0 flex flex-col text-sm">
+            <div className="px-6 py-3 text-green-400 flex items-center gap-2 shrink-0"><Check size={16} /> 已將 {summary.entries.length} 個分頁匯出至 {summary.name}</div>
+            <div className="flex-1 overflow-y-auto px-6 font-mono text-xs">
+              {summary.entries.map(entry => (
+                <div key={entry.fileId} className="flex items-center gap-3 py-1 border-b border-gray-700/60">
+                  <span className="text-gray-200 truncate flex-1" title={entry.path}>{entry.path}</span>
+                  <span className="text-gray-500 shrink-0">{formatSize(entry.size)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end px-6 py-3 shrink-0">
+              <button onClick={onClose} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white">關閉</button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col text-sm">
+            <div className="px-6 py-4 shrink-0">
+              <label className="flex flex-col gap-1 text-gray-400 text-xs">
+                壓縮檔名稱
+                <input value={archiveName} onChange={e => setArchiveName(e.target.value)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200 focus:border-blue-500 outline-none" />
+              </label>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6">
+              {files.length === 0 && <div className="text-gray-500">沒有已修改的分頁。</div>}
+              {files.map(f => (
+                <label key={f.id} className="flex items-center gap-2 py-1 border-b border-gray-700/60 cursor-pointer text-gray-300">
+                  <input type="checkbox" checked={selected.has(f.id)} onChange={() => toggle(f.id)} />
+                  <span className="truncate flex-1 font-mono text-xs" title={f.relativePath ?? f.filename}>{f.relativePath ?? f.filename}</span>
+                  <span className="text-xs text-gray-500 shrink-0">{f.region ? '區域檔' : CompressionNames[f.compression]}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center justify-end gap-2 px-6 py-3 shrink-0">
+              <span className="text-xs text-gray-500 mr-auto">每個檔案保留原本的壓縮方式</span>
+              <button onClick={onClose} className="px-4 py-1.5 rounded text-gray-300 hover:bg-gray-700">取消</button>
+              <button onClick={save} disabled={saving || selected.size === 0} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">{saving ? '處理中…' : `下載 ZIP (${selected.size})`}</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
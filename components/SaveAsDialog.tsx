@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { NBTFile, CompressionType } from '../types';
+import { CompressionNames } from '../utils/nbtParser';
+import { X, Save } from 'lucide-react';
+
+export interface SaveOptions {
+  filename: string;
+  compression: CompressionType;
+  level: number;
+}
+
+interface SaveAsDialogProps {
+  file: NBTFile;
+  onSave: (options: SaveOptions) => void;
+  onClose: () => void;
+}
+
+export const SaveAsDialog: React.FC<SaveAsDialogProps> = ({ file, onSave, onClose }) => {
+  const [filename, setFilename] = useState(file.filename);
+  const [compression, setCompression] = useState<CompressionType>(file.compression);
+  const [level, setLevel] = useState(6);
+
+  // Region files manage compression per chunk
+  const canCompress = !file.region;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-md flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2"><Save size={18} /> 另存新檔</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4 text-sm">
+          <label className="flex flex-col gap-1 text-gray-400 text-xs">
+            檔案名稱
+            <input value={filename} onChange={e => setFilename(e.target.value)} autoFocus className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200 focus:border-blue-500 outline-none" />
+          </label>
+          {canCompress && (
+            <div className="grid grid-cols-2 gap-4">
+              <label className="flex flex-col gap-1 text-gray-400 text-xs">
+                壓縮方式
+                <select value={compression} onChange={e => setCompression(e.target.value as CompressionType)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200">
+                  {(Object.keys(CompressionNames) as CompressionType[]).map(c => <option key={c} value={c}>{CompressionNames[c]}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-gray-400 text-xs">
+                壓縮等級 ({level})
+                <input type="range" min={1} max={9} value={level} disabled={compression === 'none'} onChange={e => setLevel(parseInt(e.target.value))} className="mt-2 disabled:opacity-40" />
+              </label>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-1.5 rounded text-gray-300 hover:bg-gray-700">取消</button>
+            <button onClick={() => onSave({ filename: filename.trim() || file.filename, compression, level })} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white">儲存</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { NBTTag } from '../types';
+import { NBTPath, PathMatch } from '../utils/nbtPath';
+import { X, ListTree } from 'lucide-react';
+
+interface SearchResultsPanelProps {
+  root: NBTTag;
+  hits: PathMatch[];
+  cursor: number;
+  onPick: (index: number) => void;
+  onClose: () => void;
+}
+
+// Paths are only formatted for rendered rows; F3 still walks every hit
+const LIST_LIMIT = 500;
+
+export const SearchResultsPanel: React.FC<SearchResultsPanelProps> = ({ root, hits, cursor, onPick, onClose }) => (
+  <div className="w-80 shrink-0 bg-gray-900 border-l border-gray-800 flex flex-col text-sm" onClick={e => e.stopPropagation()}>
+    <div className="h-10 flex items-center justify-between px-3 border-b border-gray-800 shrink-0">
+      <span className="font-bold text-gray-200 flex items-center gap-2"><ListTree size={16} /> 搜尋結果 <span className="text-xs font-normal text-gray-500">{hits.length} 項</span></span>
+      <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"><X size={16} /></button>
+    </div>
+    <div className="flex-1 overflow-y-auto">
+      {hits.slice(0, LIST_LIMIT).map((hit, i) => (
+        <div key={hit.indices.join(',')} onClick={() => onPick(i)} className={`px-3 py-1.5 border-b border-gray-800/60 cursor-pointer font-mono text-xs ${i === cursor ? 'bg-blue-900/60' : 'hover:bg-gray-800'}`}>
+          <div className="text-orange-300 truncate">{hit.indices.length ? NBTPath.format(NBTPath.fromIndices(root, hit.indices)) : '(根目錄)'}</div>
+          {hit.tag.value !== null && typeof hit.tag.value !== 'object' && <div className="text-blue-200 truncate">{String(hit.tag.value)}</div>}
+        </div>
+      ))}
+      {hits.length > LIST_LIMIT && <div className="px-3 py-2 text-xs text-gray-500">僅顯示前 {LIST_LIMIT} 項，請使用 F3 瀏覽其餘結果</div>}
+    </div>
+  </div>
+);
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface TaskProgressProps {
+  label: string;
+  done: number;
+  total: number;
+  onCancel: () => void;
+}
+
+export const TaskProgress: React.FC<TaskProgressProps> = ({ label, done, total, onCancel }) => {
+  const percent = total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 0;
+
+  return (
+    <div className="fixed bottom-10 right-6 z-50 w-80 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-4 text-sm">
+      <div className="flex items-center gap-2 text-gray-200 mb-3">
+        <Loader2 size={16} className="animate-spin text-blue-400 shrink-0" />
+        <span className="truncate flex-1">{label}</span>
+        <span className="font-mono text-xs text-gray-400">{percent}%</span>
+      </div>
+      <div className="h-1.5 bg-gray-800 rounded overflow-hidden mb-3">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }}></div>
+      </div>
+      <div className="flex justify-end">
+        <button onClick={onCancel} className="px-3 py-1 rounded text-xs text-gray-300 hover:bg-gray-700">取消</button>
+      </div>
+    </div>
+  );
+};
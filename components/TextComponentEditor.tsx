@@ -0,0 +1,214 @@
+import React, { useState, useMemo } from 'react';
+import {
+  TextRun, TextFieldKind, ClickAction, StyleFlag, STYLE_KEYS, NAMED_COLORS, CLICK_ACTION_LIST, TEXT_FIELD_BASE,
+  componentToRuns, runsToComponent, validateTextComponent, flattenTextComponent,
+} from '../utils/textComponent';
+import { RichText } from './ItemTooltip';
+import { X, Type, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface TextComponentEditorProps {
+  fieldName: string;
+  kind: TextFieldKind;
+  value: string;
+  onSave: (json: string) => void;
+  onClose: () => void;
+}
+
+type Mode = 'runs' | 'json';
+
+const FLAG_LABELS: Record<StyleFlag, { label: string; title: string; className: string }> = {
+  bold: { label: 'B', title: '粗體', className: 'font-bold' },
+  italic: { label: 'I', title: '斜體', className: 'italic' },
+  underlined: { label: 'U', title: '底線', className: 'underline' },
+  strikethrough: { label: 'S', title: '刪除線', className: 'line-through' },
+  obfuscated: { label: 'O', title: '亂碼', className: '' },
+};
+
+const CLICK_LABELS: Record<string, string> = {
+  open_url: '開啟網址',
+  run_command: '執行指令',
+  suggest_command: '建議指令',
+  change_page: '翻頁',
+  copy_to_clipboard: '複製到剪貼簿',
+};
+
+// Signs and books render dark text on a light background
+const LIGHT_PREVIEW: TextFieldKind[] = ['sign', 'page'];
+
+// Flags cycle unset → on → off, since "off" overrides the italic that names and lore get by default
+const nextFlag = (v: boolean | undefined) => v === undefined ? true : v ? false : undefined;
+
+const initialState = (value: string): { mode: Mode; runs: TextRun[]; json: string } => {
+  try {
+    const parsed = JSON.parse(value);
+    const runs = componentToRuns(parsed);
+    return runs ? { mode: 'runs', runs, json: JSON.stringify(parsed, null, 2) } : { mode: 'json', runs: [], json: JSON.stringify(parsed, null, 2) };
+  } catch {
+    // Bare text (or § codes) becomes a single run; broken JSON is left as it is for repair
+    return /^\s*[{[]/.test(value) ? { mode: 'json', runs: [], json: value } : { mode: 'runs', runs: [{ text: value }], json: value };
+  }
+};
+
+export const TextComponentEditor: React.FC<TextComponentEditorProps> = ({ fieldName, kind, value, onSave, onClose }) => {
+  const [initial] = useState(() => initialState(value));
+  const [mode, setMode] = useState<Mode>(initial.mode);
+  const [runs, setRuns] = useState<TextRun[]>(initial.runs);
+  const [json, setJson] = useState(initial.json);
+
+  const { component, errors } = useMemo((): { component: unknown; errors: string[] } => {
+    if (mode === 'runs') {
+      if (runs.length === 0) return { component: null, errors: ['至少需要一段文字'] };
+      const c = runsToComponent(runs);
+      return { component: c, errors: validateTextComponent(c) };
+    }
+    try {
+      const c = JSON.parse(json);
+      return { component: c, errors: validateTextComponent(c) };
+    } catch (e) {
+      return { component: null, errors: [`JSON 語法錯誤: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+  }, [mode, runs, json]);
+
+  const preview = useMemo(() => errors.length === 0 ? flattenTextComponent(component, TEXT_FIELD_BASE[kind]) : [], [component, errors, kind]);
+
+  const switchMode = (next: Mode) => {
+    if (next === mode) return;
+    if (next === 'json') {
+      if (runs.length > 0) setJson(JSON.stringify(runsToComponent(runs), null, 2));
+    } else {
+      const parsed = errors.length === 0 ? componentToRuns(component) : null;
+      if (!parsed) {
+        alert(errors.length > 0 ? '請先修正 JSON 錯誤' : '此元件包含翻譯、選擇器或巢狀樣式，只能以 JSON 編輯');
+        return;
+      }
+      setRuns(parsed);
+    }
+    setMode(next);
+  };
+
+  const updateRun = (index: number, patch: Partial<TextRun>) => {
+    setRuns(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const moveRun = (index: number, delta: number) => {
+    setRuns(prev => {
+      const next = [...prev];
+      [next[index], next[index + delta]] = [next[index + delta], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave(JSON.stringify(component));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-700 font-sans">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Type size={20} /> 文字元件 <span className="text-sm font-mono text-orange-300">{fieldName}</span></h2>
+          <div className="flex items-center gap-3">
+            <div className="flex rounded border border-gray-600 overflow-hidden text-xs">
+              {(['runs', 'json'] as Mode[]).map(m => (
+                <button key={m} onClick={() => switchMode(m)} className={`px-3 py-1 ${mode === m ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>{m === 'runs' ? '結構' : 'JSON'}</button>
+              ))}
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 flex flex-col gap-2 text-sm">
+          {mode === 'runs' ? (
+            <>
+              {runs.map((run, i) => {
+                const customColor = !!run.color && !NAMED_COLORS[run.color];
+                return (
+                  <div key={i} className="bg-gray-900/60 border border-gray-700 rounded p-2 flex flex-col gap-2">
+                    <div className="flex items-center gap-2">
+                      <input value={run.text} onChange={e => updateRun(i, { text: e.target.value })} placeholder="文字" className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none focus:border-blue-500" />
+                      <select
+                        value={customColor ? 'custom' : run.color ?? ''}
+                        onChange={e => updateRun(i, { color: e.target.value === 'custom' ? '#FFFFFF' : e.target.value || undefined })}
+                        className="bg-gray-950 border border-gray-700 rounded px-1 py-1 text-gray-200 text-xs"
+                        style={{ color: run.color && (NAMED_COLORS[run.color] ?? run.color) }}
+                      >
+                        <option value="">(繼承顏色)</option>
+                        {Object.entries(NAMED_COLORS).map(([name, hex]) => <option key={name} value={name} style={{ color: hex }}>{name}</option>)}
+                        <option value="custom">自訂 #RRGGBB</option>
+                      </select>
+                      {customColor && <input value={run.color} onChange={e => updateRun(i, { color: e.target.value })} className="w-20 bg-gray-950 border border-gray-700 rounded px-1 py-1 font-mono text-xs text-gray-200 outline-none focus:border-blue-500" />}
+                      <div className="flex">
+                        {STYLE_KEYS.map(flag => {
+                          const v = run[flag];
+                          return (
+                            <button
+                              key={flag}
+                              onClick={() => updateRun(i, { [flag]: nextFlag(v) })}
+                              title={`${FLAG_LABELS[flag].title}: ${v === undefined ? '繼承' : v ? '開' : '關'}`}
+                              className={`w-6 h-6 text-xs border border-gray-700 -ml-px first:ml-0 ${FLAG_LABELS[flag].className} ${v === true ? 'bg-blue-600 text-white' : v === false ? 'bg-red-900/50 text-red-300 line-through' : 'text-gray-400 hover:bg-gray-700'}`}
+                            >
+                              {FLAG_LABELS[flag].label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      <button onClick={() => moveRun(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30"><ArrowUp size={14} /></button>
+                      <button onClick={() => moveRun(i, 1)} disabled={i === runs.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30"><ArrowDown size={14} /></button>
+                      <button onClick={() => setRuns(prev => prev.filter((_, j) => j !== i))} className="p-1 text-gray-400 hover:text-red-400"><Trash2 size={14} /></button>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                      <select
+                        value={run.click?.action ?? ''}
+                        onChange={e => updateRun(i, { click: e.target.value ? { action: e.target.value as ClickAction, value: run.click?.value ?? '' } : undefined })}
+                        className="bg-gray-950 border border-gray-700 rounded px-1 py-1 text-gray-300"
+                      >
+                        <option value="">(無點擊事件)</option>
+                        {CLICK_ACTION_LIST.map(a => <option key={a} value={a}>{CLICK_LABELS[a]}</option>)}
+                      </select>
+                      {run.click && <input value={run.click.value} onChange={e => updateRun(i, { click: { ...run.click!, value: e.target.value } })} placeholder={run.click.action === 'open_url' ? 'https://...' : run.click.action === 'change_page' ? '頁碼' : '/指令'} className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded px-2 py-1 font-mono text-gray-200 outline-none focus:border-blue-500" />}
+                      <input value={run.hover ?? ''} onChange={e => updateRun(i, { hover: e.target.value || undefined })} placeholder="滑鼠懸停文字" className="flex-1 min-w-0 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none focus:border-blue-500" />
+                    </div>
+                  </div>
+                );
+              })}
+              <button onClick={() => setRuns(prev => [...prev, { text: '' }])} className="self-start flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-700"><Plus size={14} /> 新增文字段</button>
+            </>
+          ) : (
+            <textarea
+              value={json}
+              onChange={e => setJson(e.target.value)}
+              spellCheck={false}
+              className="min-h-[240px] flex-1 bg-gray-950 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 outline-none focus:border-blue-500 resize-none"
+            />
+          )}
+        </div>
+
+        <div className="px-4 pb-3 shrink-0 flex flex-col gap-2">
+          <div className="flex items-center justify-between text-[10px] text-gray-500">
+            <span className="uppercase tracking-widest">預覽</span>
+            <span>以 JSON 字串寫入 (1.21.4 以前的格式)</span>
+          </div>
+          <div className={`rounded px-3 py-2 min-h-[2.5rem] whitespace-pre-wrap break-all text-sm ${LIGHT_PREVIEW.includes(kind) ? 'bg-[#d8c8a0]' : 'bg-[#100010] border border-purple-900'}`}>
+            {errors.length === 0 ? <RichText segments={preview} /> : <span className="text-gray-500 italic">—</span>}
+          </div>
+          {errors.length > 0 && (
+            <div className="max-h-24 overflow-y-auto text-xs text-red-400 flex flex-col gap-0.5 font-mono">
+              {errors.map((e, i) => <div key={i}>{e}</div>)}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-700 text-xs text-gray-400 shrink-0">
+          <span className="truncate font-mono">{errors.length === 0 ? JSON.stringify(component) : '修正錯誤後才能寫入'}</span>
+          <div className="ml-auto flex gap-2 shrink-0">
+            <button onClick={onClose} className="px-4 py-1.5 rounded text-gray-300 hover:bg-gray-700">取消</button>
+            <button onClick={handleSave} disabled={errors.length > 0} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">寫入</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import { NBTFile } from '../types';
+import { UserCache } from '../utils/userCache';
+import { parseMapping, migrateFile, MigrationDirection, MigrationReport, MappingRow } from '../utils/uuidMigration';
+import { useDryRun, ReportEntry } from './DryRunReport';
+import { X, Fingerprint, Play, Users } from 'lucide-react';
+
+interface UUIDMigrationDialogProps {
+  files: NBTFile[];
+  userCache: UserCache;
+  onApply: (reports: MigrationReport[], rows: MappingRow[]) => boolean; // false when the change was refused
+  onClose: () => void;
+}
+
+const DIRECTION_LABELS: Record<MigrationDirection, string> = {
+  'online-to-offline': '正版 → 離線',
+  'offline-to-online': '離線 → 正版',
+};
+
+const touched = (r: MigrationReport) => r.changes.length > 0 || !!r.rename;
+
+export const UUIDMigrationDialog: React.FC<UUIDMigrationDialogProps> = ({ files, userCache, onApply, onClose }) => {
+  const [direction, setDirection] = useState<MigrationDirection>('online-to-offline');
+  const [text, setText] = useState('');
+
+  const { rows, errors } = useMemo(() => parseMapping(text, direction, userCache), [text, direction, userCache]);
+
+  // Open chunk tabs are migrated too, or saving one later would write the old UUIDs back into its region
+  const { reports, expanded, toggleExpanded, applied, dryRun, apply } = useDryRun(
+    () => files.map(f => migrateFile(f, new Map(rows.map(r => [r.from, r.to])))),
+    touched,
+  );
+
+  const handleApply = () => apply(results =>
+    confirm(`確定遷移 ${rows.length} 位玩家的 UUID，共影響 ${results.length} 個檔案?`) && onApply(results, rows));
+
+  const affected = reports?.filter(touched) ?? [];
+  const totalChanges = affected.reduce((n, r) => n + r.changes.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl h-[85vh] overflow-hidden flex flex-col border border-gray-700">
+        <div className="h-14 bg-gray-900 border-b border-gray-700 flex items-center justify-between px-6 shrink-0">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Fingerprint size={20} /> UUID 遷移</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-96 shrink-0 border-r border-gray-700 flex flex-col gap-3 p-4 text-sm">
+            <div className="flex items-center gap-2">
+              <select value={direction} onChange={e => setDirection(e.target.value as MigrationDirection)} className="bg-gray-950 border border-gray-700 rounded px-2 py-1.5 text-gray-200">
+                {(Object.keys(DIRECTION_LABELS) as MigrationDirection[]).map(d => <option key={d} value={d}>{DIRECTION_LABELS[d]}</option>)}
+              </select>
+              <button onClick={() => setText(Array.from(userCache.values()).join('\n'))} disabled={userCache.size === 0} title="以 usercache.json 中的所有玩家填入" className="ml-auto flex items-center gap-1 px-2 py-1.5 rounded text-xs text-gray-300 hover:bg-gray-700 disabled:opacity-40"><Users size={14} /> 填入所有玩家 ({userCache.size})</button>
+            </div>
+            <textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder={'每行一位玩家:\nSteve\nAlex 舊UUID 新UUID\n舊UUID 新UUID'}
+              className="flex-1 min-h-0 bg-gray-950 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 outline-none focus:border-blue-500 resize-none"
+            />
+            <div className="text-xs text-gray-500">只有名稱時，離線 UUID 由名稱計算，正版 UUID 取自 usercache.json。</div>
+            {errors.length > 0 && (
+              <div className="max-h-24 overflow-y-auto text-xs text-red-400 flex flex-col gap-0.5">
+                {errors.map((e, i) => <div key={i}>{e}</div>)}
+              </div>
+            )}
+            <div className="max-h-40 overflow-y-auto font-mono text-[11px] flex flex-col gap-1">
+              {rows.map(row => (
+                <div key={row.from} className="border-b border-gray-700/60 pb-1">
+                  {row.name && <div className="text-gray-200 font-sans">{row.name}</div>}
+                  <div className="text-red-300 truncate">{row.from}</div>
+                  <div className="text-green-300 truncate">→ {row.to}</div>
+                </div>
+              ))}
+            </div>
+            <button onClick={dryRun} disabled={rows.length === 0 || errors.length > 0} className="flex items-center justify-center gap-2 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40"><Play size={14} /> 試跑 ({files.length} 個檔案)</button>
+          </div>
+
+          <div className="flex-1 min-w-0 overflow-y-auto text-sm">
+            {!reports && applied.length === 0 && <div className="p-4 text-gray-500">會改寫所有已開啟檔案中的 UUID (IntArray、Most/Least 與字串)，區域檔會逐一檢查每個區塊，playerdata 檔案會一併改名。</div>}
+            {!reports && applied.length > 0 && <div className="p-4 text-green-400">已遷移 {applied.length} 個檔案，可使用「全部儲存」匯出。</div>}
+            {reports && affected.length === 0 && <div className="p-4 text-gray-500">已開啟的檔案中沒有找到這些 UUID。</div>}
+            {affected.map(report => (
+              <ReportEntry
+                key={report.fileId}
+                open={expanded.has(report.fileId)}
+                onToggle={() => toggleExpanded(report.fileId)}
+                summary={<>
+                  <span className="truncate text-gray-200">{report.filename}</span>
+                  {report.rename && <span className="truncate text-xs text-yellow-300">→ {report.rename.filename}</span>}
+                  <span className="ml-auto text-xs shrink-0 text-green-400">{report.changes.length} 個欄位</span>
+                  {report.errors.length > 0 && <span className="text-xs shrink-0 text-red-400" title={report.errors.join('\n')}>{report.errors.length} 個錯誤</span>}
+                </>}
+                count={report.changes.length}
+                unit="個欄位"
+                renderItem={i => {
+                  const c = report.changes[i];
+                  return (
+                    <div key={i} className="min-w-0">
+                      <div className="text-orange-300 truncate" title={c.path}>{c.path} <span className="text-gray-500 font-sans">({c.kind})</span></div>
+                      <div className="text-gray-400 truncate">{c.before} → <span className="text-green-300">{c.after}</span></div>
+                    </div>
+                  );
+                }}
+              >
+                {report.errors.map((e, i) => <div key={`e${i}`} className="text-red-400 truncate">{e}</div>)}
+              </ReportEntry>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 px-6 py-3 border-t border-gray-700 text-xs text-gray-400 shrink-0">
+          {reports && <span>{affected.length} / {reports.length} 個檔案受影響 · 共 {totalChanges} 個欄位 · {affected.filter(r => r.rename).length} 個檔案改名</span>}
+          <div className="ml-auto">
+            <button onClick={handleApply} disabled={affected.length === 0} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40 disabled:hover:bg-blue-600">套用</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { NBTFile } from '../types';
+import { Workspace, WorkspaceEntry, WorkspaceFolder, buildFolderTree } from '../utils/workspace';
+import { isRegionFilename } from '../utils/regionFile';
+import { UserCache, playerNameFor } from '../utils/userCache';
+import { X, FolderTree, Folder, FolderOpen, ChevronRight, ChevronDown, FileText, Map as MapIcon } from 'lucide-react';
+
+interface WorkspaceExplorerProps {
+  workspace: Workspace;
+  files: NBTFile[];
+  activeFileId: string | null;
+  userCache: UserCache;
+  onOpen: (entry: WorkspaceEntry) => void;
+  onClose: () => void;
+}
+
+const countFiles = (folder: WorkspaceFolder): number =>
+  folder.files.length + folder.folders.reduce((n, f) => n + countFiles(f), 0);
+
+export const WorkspaceExplorer: React.FC<WorkspaceExplorerProps> = ({ workspace, files, activeFileId, userCache, onOpen, onClose }) => {
+  const tree = useMemo(() => buildFolderTree(workspace), [workspace]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(tree.folders.map(f => f.path)));
+
+  // Tabs opened from this workspace, by relative path
+  const openTabs = useMemo(() => new Map(files.filter(f => f.relativePath && !f.chunkOf).map(f => [f.relativePath!, f])), [files]);
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderFolder = (folder: WorkspaceFolder, depth: number): React.ReactNode => (
+    <>
+      {folder.folders.map(child => {
+        const open = expanded.has(child.path);
+        return (
+          <React.Fragment key={child.path}>
+            <div onClick={() => toggle(child.path)} style={{ paddingLeft: depth * 12 + 8 }} className="flex items-center gap-1 pr-2 py-0.5 cursor-pointer hover:bg-gray-800 text-gray-300">
+              {open ? <ChevronDown size={12} className="shrink-0 text-gray-500" /> : <ChevronRight size={12} className="shrink-0 text-gray-500" />}
+              {open ? <FolderOpen size={14} className="shrink-0 text-yellow-500" /> : <Folder size={14} className="shrink-0 text-yellow-500" />}
+              <span className="truncate">{child.name}</span>
+              <span className="ml-auto text-[10px] text-gray-600 shrink-0">{countFiles(child)}</span>
+            </div>
+            {open && renderFolder(child, depth + 1)}
+          </React.Fragment>
+        );
+      })}
+      {folder.files.map(entry => {
+        const tab = openTabs.get(entry.path);
+        const name = entry.path.slice(entry.path.lastIndexOf('/') + 1);
+        const player = playerNameFor(name, userCache);
+        return (
+          <div
+            key={entry.path}
+            onClick={() => onOpen(entry)}
+            title={entry.path}
+            style={{ paddingLeft: depth * 12 + 20 }}
+            className={`flex items-center gap-1.5 pr-2 py-0.5 cursor-pointer ${tab && tab.id === activeFileId ? 'bg-blue-900/60 text-white' : tab ? 'text-gray-200 hover:bg-gray-800' : 'text-gray-500 hover:bg-gray-800 hover:text-gray-300'}`}
+          >
+            {isRegionFilename(name) ? <MapIcon size={13} className="shrink-0 text-emerald-500" /> : <FileText size={13} className="shrink-0 text-blue-400" />}
+            {player ? <span className="truncate">{player} <span className="text-gray-600">{name}</span></span> : <span className="truncate">{name}</span>}
+            {tab?.isModified && <div className="w-2 h-2 rounded-full bg-blue-500 ml-auto shrink-0"></div>}
+          </div>
+        );
+      })}
+    </>
+  );
+
+  return (
+    <div className="w-64 shrink-0 bg-gray-900 border-r border-gray-800 flex flex-col text-xs select-none">
+      <div className="h-10 flex items-center justify-between px-3 border-b border-gray-800 shrink-0">
+        <span className="font-bold text-gray-200 flex items-center gap-2 truncate text-sm" title={workspace.name}><FolderTree size={16} className="shrink-0" /> <span className="truncate">{workspace.name}</span></span>
+        <button onClick={onClose} title="關閉工作區" className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white"><X size={16} /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {workspace.entries.length === 0 ? <div className="px-3 py-2 text-gray-500">資料夾中沒有 NBT 檔案</div> : renderFolder(tree, 0)}
+      </div>
+    </div>
+  );
+};
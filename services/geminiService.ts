@@ -14,6 +14,9 @@ export class GeminiService {
       if (typeof value === 'bigint') {
         return value.toString() + 'n';
       }
+      if (ArrayBuffer.isView(value)) {
+        return Array.from<number | bigint>(value as Int8Array | Int32Array | BigInt64Array);
+      }
       return value;
     });
   }
@@ -20,14 +20,62 @@ export interface NBTTag {
   value: any;
 }
 
+// Compression byte stored in front of each chunk payload in a region file
+export enum ChunkCompression {
+  GZip = 1,
+  Zlib = 2,
+  None = 3,
+  LZ4 = 4,
+}
+
+export interface RegionChunk {
+  x: number; // Local chunk coordinates inside the region (0-31)
+  z: number;
+  timestamp: number; // Seconds since epoch
+  compression: ChunkCompression;
+  external: boolean; // Payload lives in a separate c.<x>.<z>.mcc file
+  data: Uint8Array; // Still-compressed payload, only decoded when the chunk is opened
+}
+
+export interface RegionData {
+  regionX: number | null; // Parsed from r.<x>.<z>.mca, null if the filename doesn't follow it
+  regionZ: number | null;
+  chunks: (RegionChunk | null)[]; // 1024 slots, index = x + z * 32
+}
+
+export interface NBTFormat {
+  littleEndian: boolean; // Bedrock Edition stores everything little-endian
+  varint: boolean; // Bedrock network NBT: ints, longs and lengths are (zigzag) varints
+  namelessRoot: boolean; // Java 1.20.2+ network NBT: the root tag has no name
+  bedrockHeader: number | null; // Storage version from the 8-byte Bedrock level.dat header, null if absent
+}
+
+export type CompressionType = 'none' | 'gzip' | 'zlib';
+
+// Fields from the gzip member header we can carry over on save
+export interface GzipHeader {
+  time: number; // MTIME, seconds since epoch (0 = not set)
+  os: number;
+  name?: string;
+  comment?: string;
+}
+
 export interface NBTFile {
   id: string;
   filename: string;
+  relativePath?: string; // Path inside the folder it was opened from, kept when saving as a zip
   root: NBTTag;
-  isCompressed: boolean;
+  originalRoot: NBTTag; // Root as loaded or last saved, the baseline for diffs
+  compression: CompressionType;
+  gzipHeader?: GzipHeader;
+  format: NBTFormat;
   isModified: boolean;
   undoStack: NBTTag[];
   redoStack: NBTTag[];
+  region?: RegionData; // Set for .mca/.mcr tabs, root is unused
+  regionUndoStack?: RegionData[]; // History of region tabs, whose edits replace chunks rather than the root
+  regionRedoStack?: RegionData[];
+  chunkOf?: { regionFileId: string; index: number }; // Set for tabs opened from a region
 }
 
 export type TagAction = 
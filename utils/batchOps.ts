@@ -0,0 +1,87 @@
+import { TagType, NBTTag, TagTypeNames } from '../types';
+import { NBTPath } from './nbtPath';
+import { SNBTParser, SNBTWriter } from './snbt';
+import { deleteNodesByIds, getNodeId, updateAt, parseTagValue } from './treeUtils';
+
+// Every rule targets tags through a Minecraft NBT path, e.g. Inventory[{id:"minecraft:bedrock"}]
+export type BatchRule =
+  | { kind: 'delete'; path: string }
+  | { kind: 'set'; path: string; value: string }
+  | { kind: 'rename'; path: string; name: string };
+
+export interface BatchChange {
+  path: string;
+  before: string;
+  after: string | null; // null when the tag is removed
+  error?: string;
+}
+
+export interface BatchResult {
+  root: NBTTag;
+  changes: BatchChange[];
+}
+
+const PREVIEW_LENGTH = 80;
+
+const describe = (tag: NBTTag): string => {
+  const text = SNBTWriter.write(tag);
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+};
+
+const isPrimitive = (type: TagType) =>
+  type !== TagType.Compound && type !== TagType.List && type !== TagType.ByteArray && type !== TagType.IntArray && type !== TagType.LongArray;
+
+// Primitives take plain text in their own type ("0" stays an Int for XpLevel); containers and arrays take SNBT
+const parseReplacement = (tag: NBTTag, text: string): any => {
+  if (isPrimitive(tag.type)) return parseTagValue(tag.type, text);
+  const parsed = SNBTParser.parse(text.trim());
+  if (parsed.type !== tag.type) throw new Error(`型態必須為 ${TagTypeNames[tag.type]}`);
+  return parsed.value;
+};
+
+// Works on one tree without touching it; the returned root only differs when some change succeeded
+export const applyBatchRule = (root: NBTTag, rule: BatchRule): BatchResult => {
+  const matches = NBTPath.evaluate(root, rule.path);
+  const changes: BatchChange[] = [];
+  const pathOf = (indices: number[]) => indices.length ? NBTPath.format(NBTPath.fromIndices(root, indices)) : '(根目錄)';
+
+  if (rule.kind === 'delete') {
+    const ids = new Set<number>();
+    matches.forEach(({ tag, indices }) => {
+      if (indices.length === 0) {
+        changes.push({ path: pathOf(indices), before: describe(tag), after: null, error: "無法刪除根目錄。" });
+        return;
+      }
+      ids.add(getNodeId(tag));
+      changes.push({ path: pathOf(indices), before: describe(tag), after: null });
+    });
+    return { root: ids.size ? deleteNodesByIds(root, ids) : root, changes };
+  }
+
+  let result = root;
+  matches.forEach(({ tag, indices }) => {
+    const change: BatchChange = { path: pathOf(indices), before: describe(tag), after: null };
+    try {
+      let updated: NBTTag;
+      if (rule.kind === 'set') {
+        updated = { ...tag, value: parseReplacement(tag, rule.value) };
+      } else {
+        if (tag.name === null) throw new Error("列表元素沒有名稱");
+        // Checked against the partly renamed tree, so two matches under one parent can't both take the name
+        if (indices.length > 0) {
+          let parent = result;
+          for (const idx of indices.slice(0, -1)) parent = parent.type === TagType.Compound ? parent.value[idx] : parent.value.list[idx];
+          const self = indices[indices.length - 1];
+          if ((parent.value as NBTTag[]).some((c, i) => i !== self && c.name === rule.name)) throw new Error(`名稱 "${rule.name}" 已存在`);
+        }
+        updated = { ...tag, name: rule.name };
+      }
+      result = updateAt(result, indices, () => updated);
+      change.after = rule.kind === 'rename' ? `${SNBTWriter.writeKey(rule.name)}: ${describe(updated)}` : describe(updated);
+    } catch (e) {
+      change.error = e instanceof Error ? e.message : String(e);
+    }
+    changes.push(change);
+  });
+  return { root: result, changes };
+};
@@ -0,0 +1,159 @@
+import { TagType, NBTTag } from '../types';
+import { SNBTWriter } from './snbt';
+import { isLegacyItemStack, upgradeItemStacks } from './itemStack';
+
+export type CommandKind = 'give' | 'summon' | 'setblock' | 'data';
+
+// Item data moved from NBT to data components in 1.20.5; everything else kept its NBT syntax
+export type CommandSyntax = 'legacy' | 'components';
+
+export interface CommandOptions {
+  syntax: CommandSyntax;
+  player: string; // Selector for /give
+  target: string; // For /data merge: entity <selector>, block <x y z> or storage <id>
+  position: string; // For /summon and /setblock
+  block: string; // For /setblock
+}
+
+export interface GeneratedCommand {
+  command: string;
+  warnings: string[];
+}
+
+// Typed in chat vs. pasted into a command block
+export const CHAT_LIMIT = 256;
+export const COMMAND_BLOCK_LIMIT = 32500;
+
+const child = (tag: NBTTag, name: string): NBTTag | undefined =>
+  tag.type === TagType.Compound ? (tag.value as NBTTag[]).find(t => t.name === name) : undefined;
+
+const idOf = (tag: NBTTag): string | null => {
+  const id = child(tag, 'id');
+  return id?.type === TagType.String ? id.value : null;
+};
+
+const isModernItemStack = (tag: NBTTag): boolean =>
+  idOf(tag) !== null && (child(tag, 'count') !== undefined || child(tag, 'components')?.type === TagType.Compound);
+
+const isItemStack = (tag: NBTTag) => isLegacyItemStack(tag) || isModernItemStack(tag);
+
+const isBlockEntity = (tag: NBTTag) =>
+  idOf(tag) !== null && ['x', 'y', 'z'].every(k => child(tag, k)?.type === TagType.Int);
+
+const isEntity = (tag: NBTTag) =>
+  idOf(tag) !== null && !isItemStack(tag) && !isBlockEntity(tag) &&
+  ['Pos', 'Motion', 'UUID', 'UUIDMost', 'Rotation'].some(k => child(tag, k) !== undefined);
+
+export const commandKindsFor = (tag: NBTTag): CommandKind[] => {
+  if (tag.type !== TagType.Compound) return [];
+  const kinds: CommandKind[] = [];
+  if (isItemStack(tag)) kinds.push('give');
+  if (isEntity(tag)) kinds.push('summon');
+  if (isBlockEntity(tag)) kinds.push('setblock');
+  kinds.push('data');
+  return kinds;
+};
+
+export const syntaxOf = (tag: NBTTag): CommandSyntax => isModernItemStack(tag) ? 'components' : 'legacy';
+
+// Block entity types whose id isn't a placeable block
+const BLOCK_FOR_BLOCK_ENTITY: Record<string, string> = {
+  'minecraft:sign': 'minecraft:oak_sign',
+  'minecraft:hanging_sign': 'minecraft:oak_hanging_sign',
+  'minecraft:banner': 'minecraft:white_banner',
+  'minecraft:bed': 'minecraft:red_bed',
+  'minecraft:skull': 'minecraft:skeleton_skull',
+  'minecraft:mob_spawner': 'minecraft:spawner',
+  'minecraft:shulker_box': 'minecraft:shulker_box',
+};
+
+export const defaultOptions = (tag: NBTTag): CommandOptions => {
+  const id = idOf(tag) ?? '';
+  const coords = ['x', 'y', 'z'].map(k => child(tag, k)?.value);
+  let target = 'storage minecraft:nbt_editor';
+  if (isEntity(tag)) target = `entity @e[type=${id},limit=1,sort=nearest]`;
+  else if (isBlockEntity(tag)) target = `block ${coords.join(' ')}`;
+  return { syntax: syntaxOf(tag), player: '@p', target, position: '~ ~ ~', block: BLOCK_FOR_BLOCK_ENTITY[id] ?? id };
+};
+
+const without = (tag: NBTTag, keys: string[]): NBTTag => ({ ...tag, value: (tag.value as NBTTag[]).filter(c => !keys.includes(c.name ?? '')) });
+
+// UUIDs are dropped from riders too, otherwise a second summon collides with the first
+const stripEntity = (tag: NBTTag): NBTTag => {
+  const stripped = without(tag, ['UUID', 'UUIDMost', 'UUIDLeast', 'Pos']);
+  return {
+    ...stripped,
+    value: (stripped.value as NBTTag[]).map(c => c.name === 'Passengers' && c.type === TagType.List
+      ? { ...c, value: { ...c.value, list: c.value.list.map(stripEntity) } }
+      : c),
+  };
+};
+
+const containsModernItems = (tag: NBTTag): boolean => {
+  if (tag.type === TagType.Compound) return isModernItemStack(tag) || (tag.value as NBTTag[]).some(containsModernItems);
+  if (tag.type === TagType.List) return (tag.value.list as NBTTag[]).some(containsModernItems);
+  return false;
+};
+
+// Nested items (armor stand hands, chest contents...) have to match the chosen syntax as well
+const convertItems = (tag: NBTTag, syntax: CommandSyntax, warnings: string[]): NBTTag => {
+  if (syntax === 'legacy') {
+    if (containsModernItems(tag)) warnings.push('包含 1.20.5+ 元件格式的物品，舊版無法讀取，需改選 1.20.5+ 語法');
+    return tag;
+  }
+  const { root, unmapped } = upgradeItemStacks(tag);
+  unmapped.forEach(u => warnings.push(`${u.path} ${u.key}: ${u.reason}`));
+  return root;
+};
+
+const snbt = (tag: NBTTag) => (tag.value as NBTTag[]).length > 0 ? SNBTWriter.write(tag) : '';
+
+const give = (stack: NBTTag, options: CommandOptions, warnings: string[]): string => {
+  const id = idOf(stack)!;
+  if (options.syntax === 'legacy') {
+    if (isModernItemStack(stack)) throw new Error('此物品為 1.20.5+ 元件格式，無法產生舊版 /give 指令');
+    const count = Number(child(stack, 'Count')?.value ?? 1);
+    const data = child(stack, 'tag');
+    const nbt = data?.type === TagType.Compound ? snbt(convertItems(data, 'legacy', warnings)) : '';
+    return `/give ${options.player} ${id}${nbt}${count !== 1 ? ` ${count}` : ''}`;
+  }
+  const upgraded = isLegacyItemStack(stack) ? convertItems(stack, 'components', warnings) : stack;
+  const count = Number(child(upgraded, 'count')?.value ?? 1);
+  const components = child(upgraded, 'components');
+  // Removed components are stored as "!minecraft:foo": {} and written back as a bare !minecraft:foo
+  const list = components?.type === TagType.Compound
+    ? (components.value as NBTTag[]).map(c => c.name?.startsWith('!') ? c.name : `${c.name}=${SNBTWriter.write(c)}`)
+    : [];
+  return `/give ${options.player} ${id}${list.length ? `[${list.join(',')}]` : ''}${count !== 1 ? ` ${count}` : ''}`;
+};
+
+export const generateCommand = (tag: NBTTag, kind: CommandKind, options: CommandOptions): GeneratedCommand => {
+  const warnings: string[] = [];
+  let command: string;
+  switch (kind) {
+    case 'give':
+      command = give(tag, options, warnings);
+      break;
+    case 'summon': {
+      const data = convertItems(stripEntity(without(tag, ['id'])), options.syntax, warnings);
+      command = `/summon ${idOf(tag)} ${options.position} ${snbt(data)}`.trimEnd();
+      break;
+    }
+    case 'setblock': {
+      const data = convertItems(without(tag, ['id', 'x', 'y', 'z', 'keepPacked']), options.syntax, warnings);
+      if (!options.block.trim()) throw new Error('請填入方塊 ID');
+      command = `/setblock ${options.position} ${options.block.trim()}${snbt(data)}`;
+      break;
+    }
+    case 'data': {
+      // Identity fields can't be merged; the game rejects or ignores them
+      const keys = isEntity(tag) ? ['id', 'UUID', 'UUIDMost', 'UUIDLeast'] : isBlockEntity(tag) ? ['id', 'x', 'y', 'z'] : [];
+      const data = convertItems(without(tag, keys), options.syntax, warnings);
+      command = `/data merge ${options.target} ${SNBTWriter.write(data)}`;
+      break;
+    }
+  }
+  if (command.length > COMMAND_BLOCK_LIMIT) warnings.unshift(`指令長度 ${command.length} 超過指令方塊上限 ${COMMAND_BLOCK_LIMIT} 字元，需拆分或改用資料包函數`);
+  else if (command.length > CHAT_LIMIT) warnings.unshift(`指令長度 ${command.length} 超過聊天欄上限 ${CHAT_LIMIT} 字元，需使用指令方塊執行`);
+  return { command, warnings };
+};
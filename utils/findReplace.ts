@@ -0,0 +1,179 @@
+import { TagType, NBTTag } from '../types';
+import { getNodeId, updateAt, parseTagValue, NodeId } from './treeUtils';
+import { NBTPath } from './nbtPath';
+
+export type FindTarget = 'name' | 'value' | 'both';
+
+export interface FindQuery {
+  pattern: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  target: FindTarget;
+  types: TagType[]; // Empty means every type
+  numeric: string; // e.g. "Count > 64" or "Damage between 0 and 10"
+}
+
+export interface NumericCondition {
+  name: string | null;
+  test: (n: number) => boolean;
+}
+
+export interface FindMatch {
+  tag: NBTTag;
+  indices: number[];
+  path: string;
+  // Replacement outcome, filled in by planReplacements
+  newName?: string | null;
+  newValue?: any;
+  error?: string;
+}
+
+const NUMERIC_TYPES = [TagType.Byte, TagType.Short, TagType.Int, TagType.Long, TagType.Float, TagType.Double];
+const COMPARE = /^(?:(\S+)\s+)?(>=|<=|!=|==|=|>|<)\s*(-?\d+(?:\.\d+)?)$/;
+const BETWEEN = /^(?:(\S+)\s+)?between\s+(-?\d+(?:\.\d+)?)\s+and\s+(-?\d+(?:\.\d+)?)$/i;
+
+export const parseNumericCondition = (text: string): NumericCondition | null => {
+  const input = text.trim();
+  if (!input) return null;
+
+  const between = BETWEEN.exec(input);
+  if (between) {
+    const lo = Math.min(parseFloat(between[2]), parseFloat(between[3]));
+    const hi = Math.max(parseFloat(between[2]), parseFloat(between[3]));
+    return { name: between[1] ?? null, test: n => n >= lo && n <= hi };
+  }
+
+  const compare = COMPARE.exec(input);
+  if (!compare) throw new Error(`無法理解數值條件 "${input}"，例如: Count > 64 或 Damage between 0 and 10`);
+  const bound = parseFloat(compare[3]);
+  const tests: Record<string, (n: number) => boolean> = {
+    '>': n => n > bound,
+    '>=': n => n >= bound,
+    '<': n => n < bound,
+    '<=': n => n <= bound,
+    '=': n => n === bound,
+    '==': n => n === bound,
+    '!=': n => n !== bound,
+  };
+  return { name: compare[1] ?? null, test: tests[compare[2]] };
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Plain text searches go through the same RegExp path so replacement works the same way for both
+export const buildPattern = (query: FindQuery): RegExp | null => {
+  if (!query.pattern) return null;
+  const source = query.regex ? query.pattern : escapeRegExp(query.pattern);
+  try {
+    return new RegExp(source, query.caseSensitive ? 'g' : 'gi');
+  } catch (e) {
+    throw new Error(`無效的正規表達式: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const valueText = (tag: NBTTag): string | null =>
+  tag.value !== null && typeof tag.value !== 'object' ? String(tag.value) : null;
+
+const testPattern = (pattern: RegExp, text: string) => {
+  pattern.lastIndex = 0;
+  return pattern.test(text);
+};
+
+// `scope` limits the search to the given nodes and everything below them
+export const findMatches = (root: NBTTag, query: FindQuery, scope: Set<NodeId> | null): FindMatch[] => {
+  const pattern = buildPattern(query);
+  const numeric = parseNumericCondition(query.numeric);
+  if (!pattern && !numeric && query.types.length === 0) return [];
+
+  const matches: FindMatch[] = [];
+  const visit = (tag: NBTTag, indices: number[], inScope: boolean) => {
+    const here = inScope || (scope?.has(getNodeId(tag)) ?? false);
+    if (here && indices.length > 0 && isMatch(tag)) {
+      matches.push({ tag, indices, path: NBTPath.format(NBTPath.fromIndices(root, indices)) });
+    }
+    const children: NBTTag[] = tag.type === TagType.Compound ? tag.value : tag.type === TagType.List ? tag.value.list : [];
+    children.forEach((child, idx) => visit(child, [...indices, idx], here));
+  };
+
+  const isMatch = (tag: NBTTag): boolean => {
+    if (query.types.length > 0 && !query.types.includes(tag.type)) return false;
+    if (numeric) {
+      if (!NUMERIC_TYPES.includes(tag.type)) return false;
+      if (numeric.name !== null && tag.name !== numeric.name) return false;
+      if (!numeric.test(Number(tag.value))) return false;
+    }
+    if (pattern) {
+      const value = valueText(tag);
+      const nameHit = query.target !== 'value' && tag.name !== null && testPattern(pattern, tag.name);
+      const valueHit = query.target !== 'name' && value !== null && testPattern(pattern, value);
+      if (!nameHit && !valueHit) return false;
+    }
+    return true;
+  };
+
+  visit(root, [], scope === null);
+  return matches;
+};
+
+// Marks renames that would produce two children with the same name
+const markNameCollisions = (root: NBTTag, planned: FindMatch[]): FindMatch[] => {
+  const parentKey = (indices: number[]) => indices.slice(0, -1).join(',');
+  const renamed = new Map<string, Map<number, string>>();
+  planned.forEach(m => {
+    if (m.error || m.newName === m.tag.name || m.newName == null) return;
+    const key = parentKey(m.indices);
+    if (!renamed.has(key)) renamed.set(key, new Map());
+    renamed.get(key)!.set(m.indices[m.indices.length - 1], m.newName);
+  });
+
+  return planned.map(m => {
+    const renames = renamed.get(parentKey(m.indices));
+    if (!renames || m.error || m.newName === m.tag.name) return m;
+    let parent = root;
+    for (const idx of m.indices.slice(0, -1)) parent = parent.type === TagType.Compound ? parent.value[idx] : parent.value.list[idx];
+    const siblings = parent.value as NBTTag[];
+    const self = m.indices[m.indices.length - 1];
+    const clash = siblings.some((sibling, i) => i !== self && (renames.get(i) ?? sibling.name) === m.newName);
+    return clash ? { ...m, error: `名稱 "${m.newName}" 已存在` } : m;
+  });
+};
+
+// Works out what each match becomes. With a text pattern only the matched text is replaced;
+// without one (e.g. a pure numeric query) the replacement becomes the whole value.
+export const planReplacements = (root: NBTTag, matches: FindMatch[], query: FindQuery, replacement: string): FindMatch[] => {
+  const pattern = buildPattern(query);
+  const planned = matches.map(match => {
+    const { tag } = match;
+    let newName = tag.name;
+    let newValue = tag.value;
+    try {
+      if (pattern) {
+        if (query.target !== 'value' && tag.name !== null && testPattern(pattern, tag.name)) {
+          newName = tag.name.replace(pattern, replacement);
+        }
+        const value = valueText(tag);
+        if (query.target !== 'name' && value !== null && testPattern(pattern, value)) {
+          newValue = parseTagValue(tag.type, value.replace(pattern, replacement));
+        }
+      } else if (replacement !== '') {
+        if (valueText(tag) === null) throw new Error("容器與陣列沒有可取代的值");
+        newValue = parseTagValue(tag.type, replacement);
+      }
+      return { ...match, newName, newValue };
+    } catch (e) {
+      return { ...match, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+  return markNameCollisions(root, planned);
+};
+
+// Applies every planned replacement without an error as one new root
+export const applyReplacements = (root: NBTTag, planned: FindMatch[]): NBTTag => {
+  let result = root;
+  for (const match of planned) {
+    if (match.error) continue;
+    if (match.newName === match.tag.name && match.newValue === match.tag.value) continue;
+    result = updateAt(result, match.indices, target => ({ ...target, name: match.newName ?? null, value: match.newValue }));
+  }
+  return result;
+};
@@ -0,0 +1,265 @@
+import { TagType, NBTTag, NBTFile, RegionData } from '../types';
+import { NBTPath } from './nbtPath';
+import { inheritNodeId } from './treeUtils';
+import { RegionParser, RegionWriter } from './regionFile';
+
+// One inventory entry in either layout:
+// legacy (before 1.20.5) { id, Count: Byte, tag: {...} } or components (1.20.5+) { id, count: Int, components: {...} }
+export interface ItemStack {
+  id: string;
+  count: number;
+  slot?: number;
+  format: 'legacy' | 'components';
+  data?: NBTTag; // `tag` or `components`, whichever the stack has
+}
+
+export interface UnmappedField {
+  path: string; // Item stack the field belongs to
+  key: string;
+  reason: string;
+}
+
+const NUMERIC = [TagType.Byte, TagType.Short, TagType.Int, TagType.Long, TagType.Float, TagType.Double];
+
+const child = (tag: NBTTag, name: string): NBTTag | undefined =>
+  tag.type === TagType.Compound ? (tag.value as NBTTag[]).find(t => t.name === name) : undefined;
+
+const numberOf = (tag: NBTTag | undefined): number | undefined =>
+  tag && NUMERIC.includes(tag.type) ? Number(tag.value) : undefined;
+
+export const isLegacyItemStack = (tag: NBTTag): boolean =>
+  tag.type === TagType.Compound && child(tag, 'id')?.type === TagType.String && numberOf(child(tag, 'Count')) !== undefined && !child(tag, 'count');
+
+export const readItemStack = (tag: NBTTag): ItemStack | null => {
+  const id = child(tag, 'id');
+  if (!id || id.type !== TagType.String) return null;
+  const slot = numberOf(child(tag, 'Slot'));
+  const components = child(tag, 'components');
+  if (child(tag, 'count') || components) {
+    return { id: id.value, count: numberOf(child(tag, 'count')) ?? 1, slot, format: 'components', data: components };
+  }
+  return { id: id.value, count: numberOf(child(tag, 'Count')) ?? 0, slot, format: 'legacy', data: child(tag, 'tag') };
+};
+
+// --- Legacy → components ---
+
+const str = (name: string | null, value: string): NBTTag => ({ type: TagType.String, name, value });
+const int = (name: string | null, value: number): NBTTag => ({ type: TagType.Int, name, value });
+const compound = (name: string | null, value: NBTTag[]): NBTTag => ({ type: TagType.Compound, name, value });
+const list = (name: string | null, itemType: TagType, items: NBTTag[]): NBTTag => ({ type: TagType.List, name, value: { itemType, list: items } });
+
+const listItems = (tag: NBTTag | undefined): NBTTag[] => tag?.type === TagType.List ? tag.value.list : [];
+
+// [{id:"minecraft:sharpness",lvl:5s}] → {levels:{"minecraft:sharpness":5}}
+const enchantmentLevels = (name: string, tag: NBTTag): NBTTag =>
+  compound(name, [compound('levels', listItems(tag).flatMap(e => {
+    const id = child(e, 'id');
+    const lvl = numberOf(child(e, 'lvl'));
+    return id?.type === TagType.String && lvl !== undefined ? [int(id.value, lvl)] : [];
+  }))]);
+
+// SkullOwner is a plain name or {Id, Name, Properties:{textures:[{Value, Signature}]}}
+const profile = (tag: NBTTag): NBTTag => {
+  if (tag.type === TagType.String) return compound('minecraft:profile', [str('name', tag.value)]);
+  const fields: NBTTag[] = [];
+  const name = child(tag, 'Name');
+  const id = child(tag, 'Id');
+  if (name?.type === TagType.String) fields.push(str('name', name.value));
+  if (id?.type === TagType.IntArray) fields.push({ ...id, name: 'id' });
+  const properties = child(tag, 'Properties');
+  if (properties?.type === TagType.Compound) {
+    const entries = (properties.value as NBTTag[]).flatMap(prop => listItems(prop).map(p => {
+      const value = child(p, 'Value');
+      const signature = child(p, 'Signature');
+      return compound(null, [
+        str('name', prop.name ?? ''),
+        str('value', value?.value ?? ''),
+        ...(signature?.type === TagType.String ? [str('signature', signature.value)] : []),
+      ]);
+    }));
+    if (entries.length) fields.push(list('properties', TagType.Compound, entries));
+  }
+  return compound('minecraft:profile', fields);
+};
+
+// Shulker boxes of every color share one block entity type
+const blockEntityId = (itemId: string) => itemId.endsWith('shulker_box') ? 'minecraft:shulker_box' : itemId;
+
+// Vanilla keys the converter knows about but can't express as components yet; they go to custom_data
+const KNOWN_UNMAPPED: Record<string, string> = {
+  HideFlags: '提示框隱藏旗標需改用各元件的 show_in_tooltip',
+  AttributeModifiers: '屬性修飾器格式已變更',
+  CanDestroy: '方塊判定格式已變更',
+  CanPlaceOn: '方塊判定格式已變更',
+  Fireworks: '煙火格式已變更',
+  Explosion: '煙火格式已變更',
+  pages: '書本內容格式已變更',
+  EntityTag: '需依實體類型轉換',
+  CustomPotionEffects: '藥水效果格式已變更',
+};
+
+export interface ItemUpgradeReport {
+  fileId: string;
+  filename: string;
+  converted: number;
+  unmapped: UnmappedField[];
+  root?: NBTTag; // Set when the tree changed
+  region?: RegionData; // Set when chunks of a region tab changed
+  errors: string[];
+}
+
+interface UpgradeContext {
+  unmapped: UnmappedField[];
+  converted: number;
+}
+
+const upgradeStack = (stack: NBTTag, path: string, ctx: UpgradeContext): NBTTag => {
+  const id = child(stack, 'id')!.value as string;
+  const components: NBTTag[] = [];
+  const customData: NBTTag[] = [];
+  const report = (key: string, reason: string) => ctx.unmapped.push({ path, key, reason });
+  const legacy = child(stack, 'tag');
+
+  (legacy?.type === TagType.Compound ? legacy.value as NBTTag[] : []).forEach(field => {
+    const key = field.name ?? '';
+    switch (key) {
+      case 'Damage':
+        if (numberOf(field)) components.push(int('minecraft:damage', numberOf(field)!));
+        return;
+      case 'Unbreakable':
+        if (numberOf(field)) components.push(compound('minecraft:unbreakable', []));
+        return;
+      case 'RepairCost':
+        components.push(int('minecraft:repair_cost', numberOf(field) ?? 0));
+        return;
+      case 'CustomModelData':
+        components.push(int('minecraft:custom_model_data', numberOf(field) ?? 0));
+        return;
+      case 'Enchantments':
+        components.push(enchantmentLevels('minecraft:enchantments', field));
+        return;
+      case 'StoredEnchantments':
+        components.push(enchantmentLevels('minecraft:stored_enchantments', field));
+        return;
+      case 'SkullOwner':
+        components.push(profile(field));
+        return;
+      case 'Trim':
+        components.push({ ...field, name: 'minecraft:trim' });
+        return;
+      case 'Potion':
+      case 'CustomPotionColor':
+        return; // Folded into potion_contents below
+      case 'display': {
+        const rest: NBTTag[] = [];
+        (field.value as NBTTag[]).forEach(d => {
+          // Names and lore stay JSON text strings, the 1.20.5 format
+          if (d.name === 'Name' && d.type === TagType.String) components.push(str('minecraft:custom_name', d.value));
+          else if (d.name === 'Lore') components.push(list('minecraft:lore', TagType.String, listItems(d).map(l => str(null, l.value))));
+          else if (d.name === 'color') components.push(compound('minecraft:dyed_color', [int('rgb', numberOf(d) ?? 0)]));
+          else rest.push(d);
+        });
+        if (rest.length) {
+          customData.push({ ...field, value: rest });
+          rest.forEach(d => report(`display.${d.name}`, '未知的 display 欄位，已移至 custom_data'));
+        }
+        return;
+      }
+      case 'BlockEntityTag': {
+        const rest: NBTTag[] = [];
+        (field.value as NBTTag[]).forEach(b => {
+          if (b.name === 'Items' && b.type === TagType.List) {
+            const items = listItems(b).map((item, i) => {
+              const slot = numberOf(child(item, 'Slot')) ?? i;
+              const withoutSlot = { ...item, value: (item.value as NBTTag[]).filter(c => c.name !== 'Slot') };
+              const upgraded = isLegacyItemStack(withoutSlot) ? upgradeStack(withoutSlot, `${path}.tag.BlockEntityTag.Items[${i}]`, ctx) : withoutSlot;
+              return compound(null, [int('slot', slot), { ...upgraded, name: 'item' }]);
+            });
+            components.push(list('minecraft:container', TagType.Compound, items));
+          } else {
+            rest.push(b);
+          }
+        });
+        if (rest.length) {
+          const hasId = rest.some(b => b.name === 'id');
+          components.push(compound('minecraft:block_entity_data', hasId ? rest : [str('id', blockEntityId(id)), ...rest]));
+        }
+        return;
+      }
+      default:
+        customData.push(field);
+        report(key, KNOWN_UNMAPPED[key] ?? '沒有對應的元件，已移至 custom_data');
+    }
+  });
+
+  const potion = legacy && child(legacy, 'Potion');
+  const potionColor = legacy && numberOf(child(legacy, 'CustomPotionColor'));
+  if (potion || potionColor !== undefined) {
+    components.push(compound('minecraft:potion_contents', [
+      ...(potion?.type === TagType.String ? [str('potion', potion.value)] : []),
+      ...(potionColor !== undefined ? [int('custom_color', potionColor)] : []),
+    ]));
+  }
+  if (customData.length) components.push(compound('minecraft:custom_data', customData));
+
+  // Slot and any other outer fields (e.g. curios wrappers) are kept as they are
+  const outer = (stack.value as NBTTag[]).flatMap((c): NBTTag[] => {
+    if (c.name === 'Count') return [int('count', numberOf(c) ?? 1)];
+    if (c.name === 'tag') return [];
+    return [c];
+  });
+  if (components.length) outer.push(compound('components', components));
+  ctx.converted++;
+  return inheritNodeId(stack, { ...stack, value: outer });
+};
+
+// Upgrades every legacy item stack in the tree, wherever it sits (inventories, chests, item frames...)
+export const upgradeItemStacks = (root: NBTTag): { root: NBTTag; converted: number; unmapped: UnmappedField[] } => {
+  const ctx: UpgradeContext = { unmapped: [], converted: 0 };
+
+  const visit = (tag: NBTTag, indices: number[]): NBTTag => {
+    if (isLegacyItemStack(tag)) {
+      const path = indices.length ? NBTPath.format(NBTPath.fromIndices(root, indices)) : '(根目錄)';
+      return upgradeStack(tag, path, ctx);
+    }
+    if (tag.type === TagType.Compound) {
+      const children = (tag.value as NBTTag[]).map((c, i) => visit(c, [...indices, i]));
+      return children.some((c, i) => c !== tag.value[i]) ? inheritNodeId(tag, { ...tag, value: children }) : tag;
+    }
+    if (tag.type === TagType.List) {
+      const items = (tag.value.list as NBTTag[]).map((c, i) => visit(c, [...indices, i]));
+      return items.some((c, i) => c !== tag.value.list[i]) ? inheritNodeId(tag, { ...tag, value: { ...tag.value, list: items } }) : tag;
+    }
+    return tag;
+  };
+
+  return { root: visit(root, []), ...ctx };
+};
+
+// Same chunk-by-chunk approach as the UUID migration: only chunks holding legacy stacks are re-encoded
+export const upgradeFile = (file: NBTFile): ItemUpgradeReport => {
+  const report: ItemUpgradeReport = { fileId: file.id, filename: file.filename, converted: 0, unmapped: [], errors: [] };
+  if (file.region) {
+    let chunks: RegionData['chunks'] | null = null;
+    file.region.chunks.forEach((chunk, index) => {
+      if (!chunk || chunk.external) return;
+      try {
+        const { root, converted, unmapped } = upgradeItemStacks(RegionParser.readChunk(chunk));
+        if (converted === 0) return;
+        chunks ??= [...file.region!.chunks];
+        chunks[index] = RegionWriter.encodeChunk(chunk, root);
+        report.converted += converted;
+        unmapped.forEach(u => report.unmapped.push({ ...u, path: `[${chunk.x}, ${chunk.z}] ${u.path}` }));
+      } catch (e) {
+        report.errors.push(`區塊 [${chunk.x}, ${chunk.z}]: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+    if (chunks) report.region = { ...file.region, chunks };
+  } else {
+    const { root, converted, unmapped } = upgradeItemStacks(file.root);
+    report.converted = converted;
+    report.unmapped = unmapped;
+    if (converted > 0) report.root = root;
+  }
+  return report;
+};
@@ -0,0 +1,146 @@
+import { TagType, NBTTag } from '../types';
+import { ItemStack, readItemStack } from './itemStack';
+import { TextSegment, textComponentFromTag } from './textComponent';
+
+export interface EnchantmentLine {
+  id: string;
+  level: number;
+}
+
+export interface AttributeLine {
+  attribute: string;
+  amount: number;
+  percent: boolean; // Multiplying operations show as a percentage, like the game does
+  slot?: string;
+}
+
+export interface ItemTooltip {
+  name: TextSegment[] | null; // Custom name only
+  lore: TextSegment[][];
+  enchantments: EnchantmentLine[];
+  storedEnchantments: EnchantmentLine[];
+  attributes: AttributeLine[];
+  durability: { damage: number; max: number | null } | null;
+  unbreakable: boolean;
+  contents: ItemStack[]; // Shulker boxes and other containers
+}
+
+const child = (tag: NBTTag | undefined, name: string): NBTTag | undefined =>
+  tag?.type === TagType.Compound ? (tag.value as NBTTag[]).find(t => t.name === name) : undefined;
+
+const listItems = (tag: NBTTag | undefined): NBTTag[] => tag?.type === TagType.List ? tag.value.list : [];
+
+const numberOf = (tag: NBTTag | undefined): number | undefined =>
+  tag && typeof tag.value !== 'object' && !isNaN(Number(tag.value)) ? Number(tag.value) : undefined;
+
+// Tools and armor; items without an entry only show their damage
+const TOOL_DURABILITY: Record<string, number> = { wooden: 59, stone: 131, iron: 250, golden: 32, diamond: 1561, netherite: 2031 };
+const ARMOR_BASE: Record<string, number> = { leather: 5, chainmail: 15, iron: 15, golden: 7, diamond: 33, netherite: 37, turtle: 25 };
+const ARMOR_PIECE: Record<string, number> = { helmet: 11, chestplate: 16, leggings: 15, boots: 13 };
+const SPECIAL_DURABILITY: Record<string, number> = {
+  bow: 384, crossbow: 465, trident: 250, shears: 238, fishing_rod: 64, flint_and_steel: 64, shield: 336,
+  elytra: 432, carrot_on_a_stick: 25, warped_fungus_on_a_stick: 100, mace: 500, brush: 64, wolf_armor: 64,
+};
+
+export const maxDurability = (id: string): number | null => {
+  const [namespace, name] = id.includes(':') ? id.split(':', 2) : ['minecraft', id];
+  if (namespace !== 'minecraft') return null;
+  if (SPECIAL_DURABILITY[name]) return SPECIAL_DURABILITY[name];
+  const [material, piece] = [name.slice(0, name.lastIndexOf('_')), name.slice(name.lastIndexOf('_') + 1)];
+  if (ARMOR_BASE[material] && ARMOR_PIECE[piece]) return ARMOR_BASE[material] * ARMOR_PIECE[piece];
+  if (TOOL_DURABILITY[material] && ['sword', 'pickaxe', 'axe', 'shovel', 'hoe'].includes(piece)) return TOOL_DURABILITY[material];
+  return null;
+};
+
+const ROMAN: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+
+export const toRoman = (n: number): string => {
+  if (!Number.isInteger(n) || n <= 0 || n >= 4000) return String(n);
+  let out = '';
+  for (const [value, numeral] of ROMAN) {
+    while (n >= value) {
+      out += numeral;
+      n -= value;
+    }
+  }
+  return out;
+};
+
+// minecraft:fire_aspect → Fire Aspect; modded ids keep their namespace in front
+export const humanizeId = (id: string): string => {
+  const [namespace, path] = id.includes(':') ? id.split(':', 2) : ['minecraft', id];
+  const words = path.replace(/^generic\./, '').replace(/[._/]/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+  return namespace === 'minecraft' ? words : `${namespace}: ${words}`;
+};
+
+// Legacy [{id, lvl}] lists
+const legacyEnchantments = (tag: NBTTag | undefined): EnchantmentLine[] =>
+  listItems(tag).flatMap(e => {
+    const id = child(e, 'id');
+    const level = numberOf(child(e, 'lvl'));
+    return id && level !== undefined ? [{ id: String(id.value), level }] : [];
+  });
+
+// {levels:{id:lvl}} up to 1.21.4, a plain {id:lvl} map afterwards
+const componentEnchantments = (tag: NBTTag | undefined): EnchantmentLine[] => {
+  const levels = child(tag, 'levels') ?? tag;
+  return levels?.type === TagType.Compound
+    ? (levels.value as NBTTag[]).flatMap(l => numberOf(l) !== undefined ? [{ id: l.name ?? '', level: numberOf(l)! }] : [])
+    : [];
+};
+
+const LEGACY_OPERATIONS = ['add_value', 'add_multiplied_base', 'add_multiplied_total'];
+
+const attributeLine = (m: NBTTag, legacy: boolean): AttributeLine | null => {
+  const attribute = child(m, legacy ? 'AttributeName' : 'type');
+  const amount = numberOf(child(m, legacy ? 'Amount' : 'amount'));
+  const operation = child(m, legacy ? 'Operation' : 'operation');
+  if (!attribute || amount === undefined) return null;
+  const op = operation?.type === TagType.String ? operation.value : LEGACY_OPERATIONS[numberOf(operation) ?? 0];
+  const slot = child(m, legacy ? 'Slot' : 'slot');
+  return { attribute: String(attribute.value), amount, percent: op !== 'add_value', slot: slot ? String(slot.value) : undefined };
+};
+
+const LORE_STYLE = { color: '#AA00AA', italic: true };
+const NAME_STYLE = { italic: true };
+
+export const describeItem = (item: ItemStack): ItemTooltip => {
+  const tooltip: ItemTooltip = {
+    name: null, lore: [], enchantments: [], storedEnchantments: [], attributes: [], durability: null, unbreakable: false, contents: [],
+  };
+  const data = item.data;
+  let damage: number | undefined;
+  let max = maxDurability(item.id);
+
+  if (item.format === 'legacy') {
+    const display = child(data, 'display');
+    const name = child(display, 'Name');
+    if (name) tooltip.name = textComponentFromTag(name, NAME_STYLE);
+    tooltip.lore = listItems(child(display, 'Lore')).map(l => textComponentFromTag(l, LORE_STYLE));
+    tooltip.enchantments = legacyEnchantments(child(data, 'Enchantments'));
+    tooltip.storedEnchantments = legacyEnchantments(child(data, 'StoredEnchantments'));
+    tooltip.attributes = listItems(child(data, 'AttributeModifiers')).map(m => attributeLine(m, true)).filter((a): a is AttributeLine => a !== null);
+    damage = numberOf(child(data, 'Damage'));
+    tooltip.unbreakable = !!numberOf(child(data, 'Unbreakable'));
+    tooltip.contents = listItems(child(child(data, 'BlockEntityTag'), 'Items')).map(readItemStack).filter((s): s is ItemStack => s !== null);
+  } else {
+    const name = child(data, 'minecraft:custom_name');
+    if (name) tooltip.name = textComponentFromTag(name, NAME_STYLE);
+    tooltip.lore = listItems(child(data, 'minecraft:lore')).map(l => textComponentFromTag(l, LORE_STYLE));
+    tooltip.enchantments = componentEnchantments(child(data, 'minecraft:enchantments'));
+    tooltip.storedEnchantments = componentEnchantments(child(data, 'minecraft:stored_enchantments'));
+    // {modifiers:[...]} up to 1.21.4, a bare list afterwards
+    const modifiers = child(data, 'minecraft:attribute_modifiers');
+    tooltip.attributes = listItems(child(modifiers, 'modifiers') ?? modifiers).map(m => attributeLine(m, false)).filter((a): a is AttributeLine => a !== null);
+    damage = numberOf(child(data, 'minecraft:damage'));
+    max = numberOf(child(data, 'minecraft:max_damage')) ?? max;
+    tooltip.unbreakable = !!child(data, 'minecraft:unbreakable');
+    tooltip.contents = listItems(child(data, 'minecraft:container'))
+      .map(entry => child(entry, 'item'))
+      .map(stack => stack && readItemStack(stack))
+      .filter((s): s is ItemStack => !!s);
+  }
+
+  if (max !== null || damage) tooltip.durability = { damage: damage ?? 0, max };
+  return tooltip;
+};
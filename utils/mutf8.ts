@@ -0,0 +1,61 @@
+// Java's "Modified UTF-8" as written by DataOutput.writeUTF:
+// - NUL is encoded as the two bytes C0 80 instead of a single 00
+// - Characters outside the BMP are written as two 3-byte surrogates, never as 4-byte sequences
+
+export const encodeMUTF8 = (s: string): Uint8Array => {
+  let size = 0;
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    size += c >= 0x01 && c <= 0x7F ? 1 : c <= 0x7FF ? 2 : 3;
+  }
+
+  const out = new Uint8Array(size);
+  let pos = 0;
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    if (c >= 0x01 && c <= 0x7F) {
+      out[pos++] = c;
+    } else if (c <= 0x7FF) {
+      out[pos++] = 0xC0 | (c >> 6);
+      out[pos++] = 0x80 | (c & 0x3F);
+    } else {
+      out[pos++] = 0xE0 | (c >> 12);
+      out[pos++] = 0x80 | ((c >> 6) & 0x3F);
+      out[pos++] = 0x80 | (c & 0x3F);
+    }
+  }
+  return out;
+};
+
+// Also accepts standard 4-byte UTF-8 sequences, which some third-party tools write
+export const decodeMUTF8 = (bytes: Uint8Array): string => {
+  const units: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    if (b < 0x80) {
+      units.push(b);
+      i += 1;
+    } else if ((b & 0xE0) === 0xC0 && i + 1 < bytes.length) {
+      units.push(((b & 0x1F) << 6) | (bytes[i + 1] & 0x3F));
+      i += 2;
+    } else if ((b & 0xF0) === 0xE0 && i + 2 < bytes.length) {
+      units.push(((b & 0x0F) << 12) | ((bytes[i + 1] & 0x3F) << 6) | (bytes[i + 2] & 0x3F));
+      i += 3;
+    } else if ((b & 0xF8) === 0xF0 && i + 3 < bytes.length) {
+      const cp = ((b & 0x07) << 18) | ((bytes[i + 1] & 0x3F) << 12) | ((bytes[i + 2] & 0x3F) << 6) | (bytes[i + 3] & 0x3F);
+      units.push(0xD800 + ((cp - 0x10000) >> 10), 0xDC00 + ((cp - 0x10000) & 0x3FF));
+      i += 4;
+    } else {
+      units.push(0xFFFD);
+      i += 1;
+    }
+  }
+
+  // fromCharCode has an argument limit, decode in slices
+  let result = '';
+  for (let j = 0; j < units.length; j += 8192) {
+    result += String.fromCharCode(...units.slice(j, j + 8192));
+  }
+  return result;
+};
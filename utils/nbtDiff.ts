@@ -0,0 +1,179 @@
+import { TagType, NBTTag, TagTypeNames } from '../types';
+import { SNBTWriter } from './snbt';
+import { updateAt } from './treeUtils';
+
+export type DiffStatus = 'same' | 'added' | 'removed' | 'changed' | 'retyped';
+
+// One aligned position in the two trees. A missing side means the tag only exists on the other one.
+export interface DiffNode {
+  status: DiffStatus;
+  left: NBTTag | null;
+  right: NBTTag | null;
+  leftIndices: number[] | null;
+  rightIndices: number[] | null;
+  // Containers the node sits in on each side, needed to insert a tag where it is missing
+  parentIndices: { left: number[]; right: number[] } | null;
+  children: DiffNode[];
+}
+
+export interface DiffOptions {
+  // Lists of compounds match items by the first of these keys they contain, instead of by position
+  listKeys: string[];
+}
+
+const isArrayType = (type: TagType) => type === TagType.ByteArray || type === TagType.IntArray || type === TagType.LongArray;
+
+export const tagsEqual = (a: NBTTag, b: NBTTag): boolean => {
+  if (a.type !== b.type) return false;
+  if (a.type === TagType.Compound) {
+    const left = a.value as NBTTag[];
+    const right = b.value as NBTTag[];
+    if (left.length !== right.length) return false;
+    return left.every(l => {
+      const r = right.find(c => c.name === l.name);
+      return !!r && tagsEqual(l, r);
+    });
+  }
+  if (a.type === TagType.List) {
+    const left = a.value.list as NBTTag[];
+    const right = b.value.list as NBTTag[];
+    return left.length === right.length && left.every((l, i) => tagsEqual(l, right[i]));
+  }
+  if (isArrayType(a.type)) {
+    return a.value.length === b.value.length && Array.prototype.every.call(a.value, (v: any, i: number) => v === b.value[i]);
+  }
+  return a.value === b.value;
+};
+
+// Identifies a list item by its first present key, written as an NBT path filter such as {Slot:3b}
+export const listItemKey = (item: NBTTag, keys: string[]): string | null => {
+  if (item.type !== TagType.Compound) return null;
+  for (const key of keys) {
+    const child = (item.value as NBTTag[]).find(c => c.name === key);
+    if (child) return `{${SNBTWriter.writeKey(key)}:${SNBTWriter.write(child)}}`;
+  }
+  return null;
+};
+
+// Pairs of [leftIndex, rightIndex]; -1 marks a side without a partner
+const alignList = (left: NBTTag[], right: NBTTag[], keys: string[]): [number, number][] => {
+  const pairs: [number, number][] = [];
+  const rightByKey = new Map<string, number>();
+  const leftKeys = left.map(item => keys.length ? listItemKey(item, keys) : null);
+  const rightKeys = right.map(item => keys.length ? listItemKey(item, keys) : null);
+  rightKeys.forEach((key, i) => {
+    if (key !== null && !rightByKey.has(key)) rightByKey.set(key, i);
+  });
+
+  const matchedRight = new Set<number>();
+  const unkeyedLeft: number[] = [];
+  leftKeys.forEach((key, i) => {
+    const j = key === null ? undefined : rightByKey.get(key);
+    if (j !== undefined && !matchedRight.has(j)) {
+      matchedRight.add(j);
+      pairs.push([i, j]);
+    } else if (key === null) {
+      unkeyedLeft.push(i);
+    } else {
+      pairs.push([i, -1]);
+    }
+  });
+
+  // Items without a key (or all items when no key is set) fall back to matching by position
+  const unkeyedRight = right.map((_, j) => j).filter(j => rightKeys[j] === null);
+  unkeyedLeft.forEach((i, n) => {
+    if (n < unkeyedRight.length) {
+      matchedRight.add(unkeyedRight[n]);
+      pairs.push([i, unkeyedRight[n]]);
+    } else {
+      pairs.push([i, -1]);
+    }
+  });
+  right.forEach((_, j) => {
+    if (!matchedRight.has(j)) pairs.push([-1, j]);
+  });
+
+  // Keep the left side's order, with right-only items after their nearest predecessor
+  return pairs.sort((a, b) => (a[0] === -1 ? a[1] : a[0]) - (b[0] === -1 ? b[1] : b[0]) || (a[0] === -1 ? 1 : -1));
+};
+
+const buildNode = (
+  left: NBTTag | null, right: NBTTag | null,
+  leftIndices: number[] | null, rightIndices: number[] | null,
+  parentIndices: DiffNode['parentIndices'], options: DiffOptions
+): DiffNode => {
+  const node: DiffNode = { status: 'same', left, right, leftIndices, rightIndices, parentIndices, children: [] };
+  if (!left || !right) {
+    node.status = left ? 'removed' : 'added';
+    return node;
+  }
+  if (left.type !== right.type) {
+    node.status = 'retyped';
+    return node;
+  }
+
+  const parents = { left: leftIndices!, right: rightIndices! };
+  if (left.type === TagType.Compound) {
+    const l = left.value as NBTTag[];
+    const r = right.value as NBTTag[];
+    l.forEach((child, i) => {
+      const j = r.findIndex(c => c.name === child.name);
+      node.children.push(buildNode(child, j === -1 ? null : r[j], [...parents.left, i], j === -1 ? null : [...parents.right, j], parents, options));
+    });
+    r.forEach((child, j) => {
+      if (!l.some(c => c.name === child.name)) node.children.push(buildNode(null, child, null, [...parents.right, j], parents, options));
+    });
+  } else if (left.type === TagType.List) {
+    const l = left.value.list as NBTTag[];
+    const r = right.value.list as NBTTag[];
+    alignList(l, r, options.listKeys).forEach(([i, j]) => {
+      node.children.push(buildNode(
+        i === -1 ? null : l[i], j === -1 ? null : r[j],
+        i === -1 ? null : [...parents.left, i], j === -1 ? null : [...parents.right, j],
+        parents, options
+      ));
+    });
+  } else {
+    node.status = tagsEqual(left, right) ? 'same' : 'changed';
+    return node;
+  }
+
+  if (node.children.some(c => c.status !== 'same')) node.status = 'changed';
+  return node;
+};
+
+export const diffTags = (left: NBTTag, right: NBTTag, options: DiffOptions): DiffNode =>
+  buildNode(left, right, [], [], null, options);
+
+export const countChanges = (node: DiffNode): number =>
+  node.children.length === 0 ? (node.status === 'same' ? 0 : 1) : node.children.reduce((n, c) => n + countChanges(c), 0);
+
+// Copies one side of a hunk onto the other tree and returns that tree's new root.
+// 'left' takes the left value (so the right tree changes), 'right' does the opposite.
+export const applyHunk = (node: DiffNode, take: 'left' | 'right', leftRoot: NBTTag, rightRoot: NBTTag): NBTTag => {
+  const source = take === 'left' ? node.left : node.right;
+  const target = take === 'left' ? node.right : node.left;
+  const targetRoot = take === 'left' ? rightRoot : leftRoot;
+  const targetIndices = take === 'left' ? node.rightIndices : node.leftIndices;
+
+  if (source && target) {
+    return updateAt(targetRoot, targetIndices!, () => ({ ...source, name: target.name }));
+  }
+  if (!source) {
+    return updateAt(targetRoot, targetIndices!, () => null);
+  }
+
+  const parentIndices = take === 'left' ? node.parentIndices!.right : node.parentIndices!.left;
+  const sourceIndices = take === 'left' ? node.leftIndices! : node.rightIndices!;
+  return updateAt(targetRoot, parentIndices, parent => {
+    if (parent.type === TagType.Compound) {
+      return { ...parent, value: [...parent.value, source] };
+    }
+    const list = parent.value.list as NBTTag[];
+    if (list.length > 0 && parent.value.itemType !== source.type) {
+      throw new Error(`列表元素必須為 ${TagTypeNames[parent.value.itemType as TagType]}`);
+    }
+    const at = Math.min(sourceIndices[sourceIndices.length - 1], list.length);
+    return { ...parent, value: { itemType: source.type, list: [...list.slice(0, at), { ...source, name: null }, ...list.slice(at)] } };
+  });
+};
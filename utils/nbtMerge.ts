@@ -0,0 +1,121 @@
+import { TagType, NBTTag, TagTypeNames } from '../types';
+import { SNBTWriter } from './snbt';
+import { tagsEqual, listItemKey, DiffOptions } from './nbtDiff';
+
+// A position both sides changed in different ways. `null` means the tag is absent on that side.
+export interface MergeConflict {
+  id: number;
+  path: string;
+  name: string | null;
+  base: NBTTag | null;
+  ours: NBTTag | null;
+  theirs: NBTTag | null;
+}
+
+// Chosen value per conflict id; null removes the tag
+export type MergeResolutions = Map<number, NBTTag | null>;
+
+export interface MergeResult {
+  root: NBTTag;
+  conflicts: MergeConflict[];
+  autoMerged: number;
+}
+
+const same = (a: NBTTag | null, b: NBTTag | null) => a === b || (!!a && !!b && tagsEqual(a, b));
+
+const childPath = (path: string, name: string) => `${path}${path ? '.' : ''}${SNBTWriter.writeKey(name)}`;
+
+// Keyed items of a list, or null when some item has no key or a key repeats
+const keyedItems = (list: NBTTag[], keys: string[]): Map<string, NBTTag> | null => {
+  const map = new Map<string, NBTTag>();
+  for (const item of list) {
+    const key = listItemKey(item, keys);
+    if (key === null || map.has(key)) return null;
+    map.set(key, item);
+  }
+  return map;
+};
+
+// Conflict ids follow traversal order, so re-running with the same inputs and some resolutions
+// yields the same conflicts and applies the chosen values in place
+export const mergeTags = (
+  base: NBTTag, ours: NBTTag, theirs: NBTTag,
+  options: DiffOptions, resolutions: MergeResolutions = new Map()
+): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  let autoMerged = 0;
+
+  const conflict = (b: NBTTag | null, o: NBTTag | null, t: NBTTag | null, path: string, name: string | null): NBTTag | null => {
+    const id = conflicts.length;
+    conflicts.push({ id, path: path || '(根目錄)', name, base: b, ours: o, theirs: t });
+    if (!resolutions.has(id)) return o ?? t;
+    const chosen = resolutions.get(id)!;
+    return chosen && { ...chosen, name };
+  };
+
+  const mergeList = (b: NBTTag | null, o: NBTTag, t: NBTTag, path: string): NBTTag[] | null => {
+    const bl = (b?.value.list ?? []) as NBTTag[];
+    const ol = o.value.list as NBTTag[];
+    const tl = t.value.list as NBTTag[];
+
+    const kb = keyedItems(bl, options.listKeys);
+    const ko = keyedItems(ol, options.listKeys);
+    const kt = keyedItems(tl, options.listKeys);
+    if (options.listKeys.length && kb && ko && kt) {
+      const keys = [...ko.keys(), ...[...kt.keys()].filter(k => !ko.has(k))];
+      return keys
+        .map(key => merge(kb.get(key) ?? null, ko.get(key) ?? null, kt.get(key) ?? null, `${path}[${key}]`, null))
+        .filter((item): item is NBTTag => item !== null);
+    }
+
+    // Without keys, positions are only meaningful when no side added or removed items
+    if (b && bl.length === ol.length && bl.length === tl.length) {
+      return ol
+        .map((item, i) => merge(bl[i], item, tl[i], `${path}[${i}]`, null))
+        .filter((item): item is NBTTag => item !== null);
+    }
+    return null;
+  };
+
+  const merge = (b: NBTTag | null, o: NBTTag | null, t: NBTTag | null, path: string, name: string | null): NBTTag | null => {
+    if (same(o, t)) return o;
+    if (same(b, o)) {
+      autoMerged++;
+      return t;
+    }
+    if (same(b, t)) {
+      autoMerged++;
+      return o;
+    }
+
+    if (o && t && o.type === t.type && (!b || b.type === o.type)) {
+      if (o.type === TagType.Compound) {
+        const bc = (b?.value ?? []) as NBTTag[];
+        const oc = o.value as NBTTag[];
+        const tc = t.value as NBTTag[];
+        const names = [...oc.map(c => c.name!), ...tc.map(c => c.name!).filter(n => !oc.some(c => c.name === n))];
+        const find = (children: NBTTag[], n: string) => children.find(c => c.name === n) ?? null;
+        const children = names
+          .map(n => merge(find(bc, n), find(oc, n), find(tc, n), childPath(path, n), n))
+          .filter((child): child is NBTTag => child !== null);
+        return { ...o, value: children };
+      }
+      if (o.type === TagType.List) {
+        const list = mergeList(b, o, t, path);
+        if (list) {
+          const itemType = list.length > 0 ? list[0].type : o.value.itemType;
+          if (list.some(item => item.type !== itemType)) {
+            throw new Error(`${path}: 列表元素必須為 ${TagTypeNames[itemType as TagType]}`);
+          }
+          return { ...o, value: { itemType, list } };
+        }
+      }
+    }
+
+    return conflict(b, o, t, path, name);
+  };
+
+  const root = merge(base, ours, theirs, '', ours.name);
+  if (!root) throw new Error("無法刪除根目錄。");
+  return { root, conflicts, autoMerged };
+};
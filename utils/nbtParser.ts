@@ -1,59 +1,234 @@
 import pako from 'pako';
-import { TagType, NBTTag } from '../types';
+import { TagType, NBTTag, NBTFormat, CompressionType, GzipHeader } from '../types';
+import { encodeMUTF8, decodeMUTF8 } from './mutf8';
 
-// Helper to handle 64-bit integers
-const parseLong = (view: DataView, offset: number): bigint => {
-  const high = view.getInt32(offset);
-  const low = view.getInt32(offset + 4);
-  return (BigInt(high) << 32n) | (BigInt(low) & 0xFFFFFFFFn);
+export const JAVA_FORMAT: NBTFormat = { littleEndian: false, varint: false, namelessRoot: false, bedrockHeader: null };
+export const BEDROCK_FORMAT: NBTFormat = { littleEndian: true, varint: false, namelessRoot: false, bedrockHeader: null };
+
+// Selectable encodings for data that doesn't come from a file (packet dumps etc.)
+export const NBT_ENCODINGS: Record<string, { label: string; format: NBTFormat }> = {
+  java: { label: 'Java (大端序)', format: JAVA_FORMAT },
+  'java-network': { label: 'Java 網路 NBT (1.20.2+，無名根標籤)', format: { ...JAVA_FORMAT, namelessRoot: true } },
+  bedrock: { label: 'Bedrock (小端序)', format: BEDROCK_FORMAT },
+  'bedrock-network': { label: 'Bedrock 網路 NBT (VarInt)', format: { ...BEDROCK_FORMAT, varint: true } },
+};
+
+const BEDROCK_HEADER_SIZE = 8;
+const MAX_STRING_BYTES = 65535;
+const PROGRESS_STEP_BYTES = 1 << 20;
+const PROGRESS_STEP_TAGS = 20000;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+export interface ParseResult {
+  root: NBTTag;
+  compression: CompressionType;
+  gzipHeader?: GzipHeader;
+  format: NBTFormat;
+}
+
+// Java writes strings with DataOutput.writeUTF (Modified UTF-8), Bedrock uses plain UTF-8
+const usesModifiedUtf8 = (format: NBTFormat) => !format.littleEndian;
+
+export const CompressionNames: Record<CompressionType, string> = {
+  none: '未壓縮',
+  gzip: 'GZip',
+  zlib: 'Zlib',
+};
+
+const isGzip = (arr: Uint8Array) => arr[0] === 0x1f && arr[1] === 0x8b;
+
+// CMF 0x78 (deflate, 32K window) with a valid FCHECK; raw NBT never starts with 0x78
+const isZlib = (arr: Uint8Array) => arr[0] === 0x78 && ((arr[0] << 8) | arr[1]) % 31 === 0;
+
+export const decompress = (arr: Uint8Array): { data: Uint8Array; compression: CompressionType; gzipHeader?: GzipHeader } => {
+  if (isGzip(arr)) {
+    const inflator = new pako.Inflate();
+    inflator.push(arr, true);
+    if (inflator.err) throw new Error(`Invalid GZIP format: ${inflator.msg}`);
+    const h = inflator.header;
+    const gzipHeader: GzipHeader = {
+      time: h?.time ?? 0,
+      os: h?.os ?? 255,
+      name: h?.name || undefined,
+      comment: h?.comment || undefined,
+    };
+    return { data: inflator.result as Uint8Array, compression: 'gzip', gzipHeader };
+  }
+  if (isZlib(arr)) {
+    try {
+      return { data: pako.inflate(arr), compression: 'zlib' };
+    } catch (e) {
+      console.warn("Zlib header detected but inflate failed, reading as raw NBT", e);
+    }
+  }
+  return { data: arr, compression: 'none' };
 };
 
-const writeLong = (view: DataView, offset: number, value: bigint) => {
-  const high = Number(value >> 32n);
-  const low = Number(value & 0xFFFFFFFFn);
-  view.setInt32(offset, high);
-  view.setInt32(offset + 4, low);
+// FNAME records the file the data came from; a renamed copy takes the new name rather than carrying the old one
+export const renameGzipHeader = (gzipHeader: GzipHeader | undefined, filename: string): GzipHeader | undefined =>
+  gzipHeader?.name ? { ...gzipHeader, name: filename } : gzipHeader;
+
+export const compress = (data: Uint8Array, compression: CompressionType, level: number = 6, gzipHeader?: GzipHeader): Uint8Array => {
+  switch (compression) {
+    case 'gzip': return pako.gzip(data, { level, header: gzipHeader ? { ...gzipHeader } : undefined });
+    case 'zlib': return pako.deflate(data, { level });
+    default: return data;
+  }
+};
+
+// Bedrock level.dat starts with storage version + payload length (both LE int32)
+const detectBedrockHeader = (buffer: ArrayBuffer): number | null => {
+  if (buffer.byteLength < BEDROCK_HEADER_SIZE + 1) return null;
+  const view = new DataView(buffer);
+  const version = view.getInt32(0, true);
+  const length = view.getInt32(4, true);
+  const isHeader = version > 0 && version < 0x100
+    && length === buffer.byteLength - BEDROCK_HEADER_SIZE
+    && view.getUint8(BEDROCK_HEADER_SIZE) === TagType.Compound;
+  return isHeader ? version : null;
+};
+
+export const countTags = (tag: NBTTag): number => {
+  if (tag.type === TagType.Compound) return (tag.value as NBTTag[]).reduce((n, c) => n + countTags(c), 1);
+  if (tag.type === TagType.List) return (tag.value.list as NBTTag[]).reduce((n, c) => n + countTags(c), 1);
+  return 1;
 };
 
 export class NBTParser {
   private buffer: ArrayBuffer;
   private view: DataView;
   private offset: number = 0;
+  private format: NBTFormat;
+  private littleEndian: boolean;
   private decoder = new TextDecoder('utf-8');
+  private onProgress?: ProgressCallback;
+  private lastProgress: number = 0;
 
-  constructor(buffer: ArrayBuffer) {
+  constructor(buffer: ArrayBuffer, format: NBTFormat = JAVA_FORMAT, offset: number = 0, onProgress?: ProgressCallback) {
     this.buffer = buffer;
     this.view = new DataView(buffer);
+    this.format = format;
+    this.littleEndian = format.littleEndian;
+    this.offset = offset;
+    this.onProgress = onProgress;
   }
 
-  static async parse(file: File): Promise<{ root: NBTTag; isCompressed: boolean }> {
+  static async parse(file: File, onProgress?: ProgressCallback): Promise<ParseResult> {
     const buffer = await file.arrayBuffer();
-    const arr = new Uint8Array(buffer);
-
-    let finalBuffer = buffer;
-    let isCompressed = false;
-
-    // Check GZIP magic number (1F 8B)
-    if (arr[0] === 0x1f && arr[1] === 0x8b) {
-      try {
-        const inflated = pako.ungzip(arr);
-        finalBuffer = inflated.buffer;
-        isCompressed = true;
-      } catch (e) {
-        console.error("Decompression failed", e);
-        throw new Error("Invalid GZIP format");
+    const { data, compression, gzipHeader } = decompress(new Uint8Array(buffer));
+    const finalBuffer = data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+      ? data.buffer as ArrayBuffer
+      : data.slice().buffer;
+    const result = NBTParser.detectAndRead(finalBuffer, onProgress);
+    return { ...result, compression, gzipHeader };
+  }
+
+  private static detectAndRead(finalBuffer: ArrayBuffer, onProgress?: ProgressCallback): { root: NBTTag; format: NBTFormat } {
+    const bedrockHeader = detectBedrockHeader(finalBuffer);
+    if (bedrockHeader !== null) {
+      const format = { ...BEDROCK_FORMAT, bedrockHeader };
+      const parser = new NBTParser(finalBuffer, format, BEDROCK_HEADER_SIZE, onProgress);
+      return { root: parser.readTag(true), format };
+    }
+
+    // No header to go by (e.g. .mcstructure), so try Java's big-endian first and
+    // fall back to little-endian when that fails or leaves data unread
+    let bigEndianResult: NBTTag | null = null;
+    let bigEndianError: unknown = null;
+    try {
+      const parser = new NBTParser(finalBuffer, JAVA_FORMAT, 0, onProgress);
+      bigEndianResult = parser.readTag(true);
+      if (parser.offset === finalBuffer.byteLength) {
+        return { root: bigEndianResult, format: JAVA_FORMAT };
       }
+    } catch (e) {
+      bigEndianError = e;
     }
 
-    const parser = new NBTParser(finalBuffer);
-    return { root: parser.readTag(true), isCompressed };
+    try {
+      const parser = new NBTParser(finalBuffer, BEDROCK_FORMAT, 0, onProgress);
+      const root = parser.readTag(true);
+      if (parser.offset === finalBuffer.byteLength || !bigEndianResult) {
+        return { root, format: BEDROCK_FORMAT };
+      }
+    } catch (e) {
+      if (!bigEndianResult) throw bigEndianError;
+    }
+    return { root: bigEndianResult!, format: JAVA_FORMAT };
+  }
+
+  // Parse an already decompressed payload (e.g. a region chunk or a packet dump)
+  static read(buffer: ArrayBuffer, format: NBTFormat = JAVA_FORMAT): NBTTag {
+    const parser = new NBTParser(buffer, format);
+    const root = parser.readTag(true);
+    if (parser.offset < buffer.byteLength) console.warn(`${buffer.byteLength - parser.offset} trailing bytes after NBT data`);
+    return root;
+  }
+
+  private reportProgress() {
+    if (this.onProgress && this.offset - this.lastProgress >= PROGRESS_STEP_BYTES) {
+      this.lastProgress = this.offset;
+      this.onProgress(this.offset, this.buffer.byteLength);
+    }
+  }
+
+  private readVarUInt(): number {
+    let result = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const b = this.view.getUint8(this.offset++);
+      result |= (b & 0x7f) << shift;
+      if ((b & 0x80) === 0) return result >>> 0;
+    }
+    throw new Error("VarInt is too long");
+  }
+
+  private readVarULong(): bigint {
+    let result = 0n;
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      const b = this.view.getUint8(this.offset++);
+      result |= BigInt(b & 0x7f) << shift;
+      if ((b & 0x80) === 0) return result;
+    }
+    throw new Error("VarLong is too long");
+  }
+
+  private readInt(): number {
+    if (this.format.varint) {
+      const n = this.readVarUInt();
+      return (n >>> 1) ^ -(n & 1); // ZigZag
+    }
+    const v = this.view.getInt32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return v;
+  }
+
+  private readLong(): bigint {
+    if (this.format.varint) {
+      const n = this.readVarULong();
+      return BigInt.asIntN(64, (n >> 1n) ^ -(n & 1n));
+    }
+    const v = this.view.getBigInt64(this.offset, this.littleEndian);
+    this.offset += 8;
+    return v;
+  }
+
+  // Checked before allocating, so a length read with the wrong encoding fails instead of reserving gigabytes.
+  // Varint elements can be a single byte each.
+  private fitsArray(len: number, width: number): boolean {
+    return len >= 0 && len * (this.format.varint ? 1 : width) <= this.buffer.byteLength - this.offset;
   }
 
   private readString(): string {
-    const len = this.view.getUint16(this.offset);
-    this.offset += 2;
+    let len: number;
+    if (this.format.varint) {
+      len = this.readVarUInt();
+    } else {
+      len = this.view.getUint16(this.offset, this.littleEndian);
+      this.offset += 2;
+    }
     const strBuffer = new Uint8Array(this.buffer, this.offset, len);
-    const str = this.decoder.decode(strBuffer);
+    const str = usesModifiedUtf8(this.format) ? decodeMUTF8(strBuffer) : this.decoder.decode(strBuffer);
     this.offset += len;
     return str;
   }
@@ -72,7 +247,7 @@ export class NBTParser {
     }
 
     if (name === null && isRoot) {
-      name = this.readString();
+      name = this.format.namelessRoot ? '' : this.readString();
     } else if (name === null && forcedType === undefined) {
       // If we are reading a named tag (not inside a list), read name
       name = this.readString();
@@ -86,29 +261,27 @@ export class NBTParser {
         this.offset += 1;
         break;
       case TagType.Short:
-        value = this.view.getInt16(this.offset);
+        value = this.view.getInt16(this.offset, this.littleEndian);
         this.offset += 2;
         break;
       case TagType.Int:
-        value = this.view.getInt32(this.offset);
-        this.offset += 4;
+        value = this.readInt();
         break;
       case TagType.Long:
-        value = parseLong(this.view, this.offset);
-        this.offset += 8;
+        value = this.readLong();
         break;
       case TagType.Float:
-        value = this.view.getFloat32(this.offset);
+        value = this.view.getFloat32(this.offset, this.littleEndian);
         this.offset += 4;
         break;
       case TagType.Double:
-        value = this.view.getFloat64(this.offset);
+        value = this.view.getFloat64(this.offset, this.littleEndian);
         this.offset += 8;
         break;
       case TagType.ByteArray:
-        const lenByte = this.view.getInt32(this.offset);
-        this.offset += 4;
-        value = Array.from(new Int8Array(this.buffer, this.offset, lenByte));
+        const lenByte = this.readInt();
+        if (lenByte < 0 || lenByte > this.buffer.byteLength - this.offset) throw new Error(`Invalid array length ${lenByte}`);
+        value = new Int8Array(this.buffer.slice(this.offset, this.offset + lenByte));
         this.offset += lenByte;
         break;
       case TagType.String:
@@ -117,14 +290,15 @@ export class NBTParser {
       case TagType.List:
         const itemType = this.view.getUint8(this.offset) as TagType;
         this.offset += 1;
-        const listLen = this.view.getInt32(this.offset);
-        this.offset += 4;
+        const listLen = this.readInt();
+        if (listLen < 0 || listLen > this.buffer.byteLength - this.offset) throw new Error(`Invalid list length ${listLen}`);
         value = {
           itemType,
           list: [] as NBTTag[]
         };
         for (let i = 0; i < listLen; i++) {
           value.list.push(this.readTag(false, itemType, null));
+          this.reportProgress();
         }
         break;
       case TagType.Compound:
@@ -137,26 +311,27 @@ export class NBTParser {
                 break;
             }
             value.push(this.readTag(false));
+            this.reportProgress();
         }
         break;
       case TagType.IntArray:
-        const lenInt = this.view.getInt32(this.offset);
-        this.offset += 4;
-        value = [];
+        const lenInt = this.readInt();
+        if (!this.fitsArray(lenInt, 4)) throw new Error(`Invalid array length ${lenInt}`);
+        value = new Int32Array(lenInt);
         for(let i=0; i<lenInt; i++) {
-            value.push(this.view.getInt32(this.offset));
-            this.offset += 4;
+            value[i] = this.readInt();
         }
         break;
       case TagType.LongArray:
-        const lenLong = this.view.getInt32(this.offset);
-        this.offset += 4;
-        value = [];
+        const lenLong = this.readInt();
+        if (!this.fitsArray(lenLong, 8)) throw new Error(`Invalid array length ${lenLong}`);
+        value = new BigInt64Array(lenLong);
         for(let i=0; i<lenLong; i++) {
-            value.push(parseLong(this.view, this.offset));
-            this.offset += 8;
+            value[i] = this.readLong();
         }
         break;
+      default:
+        throw new Error(`Unknown tag type ${type}`);
     }
 
     return { type, name, value };
@@ -164,60 +339,149 @@ export class NBTParser {
 }
 
 export class NBTWriter {
-    private buffer: number[] = [];
+    private bytes: Uint8Array;
+    private view: DataView;
+    private pos: number = 0;
     private encoder = new TextEncoder();
+    private format: NBTFormat;
+    private littleEndian: boolean;
+    private onProgress?: ProgressCallback;
+    private totalTags: number = 0;
+    private writtenTags: number = 0;
+
+    constructor(format: NBTFormat = JAVA_FORMAT, sizeHint: number = 64 * 1024, onProgress?: ProgressCallback) {
+        this.bytes = new Uint8Array(Math.max(sizeHint, 16));
+        this.view = new DataView(this.bytes.buffer);
+        this.format = format;
+        this.littleEndian = format.littleEndian;
+        this.onProgress = onProgress;
+    }
 
-    static write(root: NBTTag, compress: boolean = true): Uint8Array {
-        const writer = new NBTWriter();
+    static write(
+        root: NBTTag,
+        compression: CompressionType = 'gzip',
+        format: NBTFormat = JAVA_FORMAT,
+        options: { level?: number; gzipHeader?: GzipHeader; sizeHint?: number; onProgress?: ProgressCallback } = {}
+    ): Uint8Array {
+        const writer = new NBTWriter(format, options.sizeHint, options.onProgress);
+        if (options.onProgress) writer.totalTags = countTags(root);
+        // Bedrock level.dat: reserve the header, the length is only known afterwards
+        if (format.bedrockHeader !== null) writer.pos = BEDROCK_HEADER_SIZE;
         writer.writeTag(root, true);
-        const u8 = new Uint8Array(writer.buffer);
-        if (compress) {
-            return pako.gzip(u8);
+        if (format.bedrockHeader !== null) {
+            writer.view.setInt32(0, format.bedrockHeader, true);
+            writer.view.setInt32(4, writer.pos - BEDROCK_HEADER_SIZE, true);
         }
-        return u8;
+        return compress(writer.bytes.subarray(0, writer.pos), compression, options.level, options.gzipHeader);
+    }
+
+    // Doubles the backing buffer until n more bytes fit
+    private ensure(n: number) {
+        if (this.pos + n <= this.bytes.length) return;
+        let size = this.bytes.length * 2;
+        while (size < this.pos + n) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(this.bytes.subarray(0, this.pos));
+        this.bytes = grown;
+        this.view = new DataView(grown.buffer);
     }
 
     private writeByte(b: number) {
-        this.buffer.push(b & 0xFF);
+        this.ensure(1);
+        this.bytes[this.pos++] = b & 0xFF;
+    }
+
+    private writeBytes(src: Uint8Array) {
+        this.ensure(src.length);
+        this.bytes.set(src, this.pos);
+        this.pos += src.length;
     }
 
     private writeShort(s: number) {
-        this.buffer.push((s >> 8) & 0xFF, s & 0xFF);
+        this.ensure(2);
+        this.view.setInt16(this.pos, s, this.littleEndian);
+        this.pos += 2;
+    }
+
+    private writeVarUInt(n: number) {
+        n = n >>> 0;
+        this.ensure(5);
+        while (n >= 0x80) {
+            this.bytes[this.pos++] = (n & 0x7F) | 0x80;
+            n >>>= 7;
+        }
+        this.bytes[this.pos++] = n;
+    }
+
+    private writeVarULong(n: bigint) {
+        n = BigInt.asUintN(64, n);
+        this.ensure(10);
+        while (n >= 0x80n) {
+            this.bytes[this.pos++] = Number(n & 0x7Fn) | 0x80;
+            n >>= 7n;
+        }
+        this.bytes[this.pos++] = Number(n);
     }
 
     private writeInt(i: number) {
-        this.buffer.push((i >> 24) & 0xFF, (i >> 16) & 0xFF, (i >> 8) & 0xFF, i & 0xFF);
+        if (this.format.varint) {
+            this.writeVarUInt((i << 1) ^ (i >> 31)); // ZigZag
+            return;
+        }
+        this.ensure(4);
+        this.view.setInt32(this.pos, i, this.littleEndian);
+        this.pos += 4;
     }
 
     private writeLong(l: bigint) {
-        const high = Number(l >> 32n);
-        const low = Number(l & 0xFFFFFFFFn);
-        this.writeInt(high);
-        this.writeInt(low);
+        l = BigInt.asIntN(64, l);
+        if (this.format.varint) {
+            this.writeVarULong((l << 1n) ^ (l >> 63n));
+            return;
+        }
+        this.ensure(8);
+        this.view.setBigInt64(this.pos, l, this.littleEndian);
+        this.pos += 8;
     }
 
     private writeFloat(f: number) {
-        const view = new DataView(new ArrayBuffer(4));
-        view.setFloat32(0, f);
-        for(let i=0; i<4; i++) this.writeByte(view.getUint8(i));
+        this.ensure(4);
+        this.view.setFloat32(this.pos, f, this.littleEndian);
+        this.pos += 4;
     }
 
     private writeDouble(d: number) {
-        const view = new DataView(new ArrayBuffer(8));
-        view.setFloat64(0, d);
-        for(let i=0; i<8; i++) this.writeByte(view.getUint8(i));
+        this.ensure(8);
+        this.view.setFloat64(this.pos, d, this.littleEndian);
+        this.pos += 8;
+    }
+
+    private reportProgress() {
+        this.writtenTags++;
+        if (this.onProgress && this.writtenTags % PROGRESS_STEP_TAGS === 0) {
+            this.onProgress(this.writtenTags, this.totalTags);
+        }
     }
 
     private writeString(s: string) {
-        const bytes = this.encoder.encode(s);
-        this.writeShort(bytes.length);
-        for (const b of bytes) this.writeByte(b);
+        const bytes = usesModifiedUtf8(this.format) ? encodeMUTF8(s) : this.encoder.encode(s);
+        if (this.format.varint) {
+            this.writeVarUInt(bytes.length);
+        } else {
+            // The length prefix is an unsigned short, anything longer can't be represented
+            if (bytes.length > MAX_STRING_BYTES) {
+                throw new Error(`String "${s.slice(0, 32)}…" is ${bytes.length} bytes, exceeding the ${MAX_STRING_BYTES}-byte NBT limit`);
+            }
+            this.writeShort(bytes.length);
+        }
+        this.writeBytes(bytes);
     }
 
     private writeTag(tag: NBTTag, isRoot: boolean = false, skipHeader: boolean = false) {
+        this.reportProgress();
         if (!skipHeader) {
             this.writeByte(tag.type);
-            if (isRoot || tag.name !== null) {
+            if ((isRoot && !this.format.namelessRoot) || (!isRoot && tag.name !== null)) {
                 this.writeString(tag.name || '');
             }
         }
@@ -229,10 +493,12 @@ export class NBTWriter {
             case TagType.Long: this.writeLong(BigInt(tag.value)); break;
             case TagType.Float: this.writeFloat(tag.value); break;
             case TagType.Double: this.writeDouble(tag.value); break;
-            case TagType.ByteArray: 
-                this.writeInt(tag.value.length);
-                for(const b of tag.value) this.writeByte(b);
+            case TagType.ByteArray: {
+                const arr = tag.value as Int8Array;
+                this.writeInt(arr.length);
+                this.writeBytes(new Uint8Array(arr.buffer, arr.byteOffset, arr.length));
                 break;
+            }
             case TagType.String: this.writeString(tag.value); break;
             case TagType.List:
                 this.writeByte(tag.value.itemType);
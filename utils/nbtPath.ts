@@ -0,0 +1,199 @@
+import { TagType, NBTTag } from '../types';
+import { SNBTParser } from './snbt';
+
+// Address of a node: compound keys and list indices from the root
+export type PathSegment = string | number;
+export type NodePath = PathSegment[];
+
+// One step of a Minecraft NBT path, e.g. Inventory[{Slot:3b}].tag.display.Name
+export type PathNode =
+  | { kind: 'root'; filter: NBTTag }
+  | { kind: 'key'; name: string; filter?: NBTTag }
+  | { kind: 'all' }
+  | { kind: 'index'; index: number }
+  | { kind: 'match'; filter: NBTTag };
+
+export interface PathMatch {
+  tag: NBTTag;
+  indices: number[];
+}
+
+// Characters the game doesn't allow in unquoted path keys
+const RESERVED = /[\s"'\[\]{}.]/;
+
+const sameValue = (type: TagType, a: any, b: any): boolean => {
+  if (type === TagType.ByteArray || type === TagType.IntArray || type === TagType.LongArray) {
+    return a.length === b.length && Array.prototype.every.call(a, (v: any, i: number) => v === b[i]);
+  }
+  return a === b;
+};
+
+// Partial comparison like the game's NbtUtils.compareNbt: every key in the pattern must match,
+// and every element of a pattern list must match some element of the target list
+export const matchesPattern = (tag: NBTTag, pattern: NBTTag): boolean => {
+  if (tag.type !== pattern.type) return false;
+  if (pattern.type === TagType.Compound) {
+    const children = tag.value as NBTTag[];
+    return (pattern.value as NBTTag[]).every(p => {
+      const child = children.find(c => c.name === p.name);
+      return !!child && matchesPattern(child, p);
+    });
+  }
+  if (pattern.type === TagType.List) {
+    const list = tag.value.list as NBTTag[];
+    const patterns = pattern.value.list as NBTTag[];
+    if (patterns.length === 0) return list.length === 0;
+    return patterns.every(p => list.some(item => matchesPattern(item, p)));
+  }
+  return sameValue(tag.type, tag.value, pattern.value);
+};
+
+export class NBTPath {
+  private text: string;
+  private pos: number = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  static parse(text: string): PathNode[] {
+    const parser = new NBTPath(text.trim());
+    const nodes: PathNode[] = [];
+    if (parser.text.length === 0) parser.fail('empty path');
+    while (parser.pos < parser.text.length) {
+      nodes.push(parser.readNode(nodes.length === 0));
+      const next = parser.text[parser.pos];
+      if (next !== undefined && next !== '[' && next !== '{') parser.expect('.');
+    }
+    return nodes;
+  }
+
+  static evaluate(root: NBTTag, path: string | PathNode[]): PathMatch[] {
+    const nodes = typeof path === 'string' ? NBTPath.parse(path) : path;
+    let current: PathMatch[] = [{ tag: root, indices: [] }];
+
+    for (const node of nodes) {
+      const next: PathMatch[] = [];
+      for (const { tag, indices } of current) {
+        if (node.kind === 'root') {
+          if (matchesPattern(tag, node.filter)) next.push({ tag, indices });
+        } else if (node.kind === 'key') {
+          if (tag.type !== TagType.Compound) continue;
+          const idx = (tag.value as NBTTag[]).findIndex(c => c.name === node.name);
+          if (idx === -1) continue;
+          const child = tag.value[idx] as NBTTag;
+          if (!node.filter || matchesPattern(child, node.filter)) next.push({ tag: child, indices: [...indices, idx] });
+        } else if (tag.type === TagType.List) {
+          const list = tag.value.list as NBTTag[];
+          if (node.kind === 'index') {
+            const idx = node.index < 0 ? list.length + node.index : node.index;
+            if (idx >= 0 && idx < list.length) next.push({ tag: list[idx], indices: [...indices, idx] });
+          } else {
+            list.forEach((item, idx) => {
+              if (node.kind === 'all' || matchesPattern(item, node.filter)) next.push({ tag: item, indices: [...indices, idx] });
+            });
+          }
+        }
+      }
+      current = next;
+    }
+    return current;
+  }
+
+  // Inverse of parse for plain key/index paths; keys are quoted whenever the game would misread them
+  static format(path: NodePath): string {
+    return path.map((segment, i) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      const key = segment === '' || RESERVED.test(segment) ? `"${segment.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : segment;
+      return i === 0 ? key : `.${key}`;
+    }).join('');
+  }
+
+  // Converts child positions (as used by the tree view) into keys and list indices
+  static fromIndices(root: NBTTag, indices: number[]): NodePath {
+    const path: NodePath = [];
+    let tag = root;
+    for (const idx of indices) {
+      if (tag.type === TagType.Compound) {
+        tag = tag.value[idx];
+        path.push(tag.name ?? '');
+      } else if (tag.type === TagType.List) {
+        tag = tag.value.list[idx];
+        path.push(idx);
+      } else {
+        throw new Error("Path does not point into a container");
+      }
+    }
+    return path;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`NBT path syntax error at ${this.pos}: ${message}`);
+  }
+
+  private expect(ch: string) {
+    if (this.text[this.pos] !== ch) this.fail(`expected '${ch}'`);
+    this.pos++;
+  }
+
+  private readFilter(): NBTTag {
+    const { tag, end } = SNBTParser.parseAt(this.text, this.pos);
+    if (tag.type !== TagType.Compound) this.fail('expected compound');
+    this.pos = end;
+    return tag;
+  }
+
+  private readNode(first: boolean): PathNode {
+    const ch = this.text[this.pos];
+    if (ch === '{') {
+      if (!first) this.fail('compound filter must follow a key or be inside []');
+      return { kind: 'root', filter: this.readFilter() };
+    }
+    if (ch === '[') {
+      this.pos++;
+      const inner = this.text[this.pos];
+      if (inner === '{') {
+        const filter = this.readFilter();
+        this.expect(']');
+        return { kind: 'match', filter };
+      }
+      if (inner === ']') {
+        this.pos++;
+        return { kind: 'all' };
+      }
+      const match = /^-?\d+/.exec(this.text.slice(this.pos));
+      if (!match) this.fail('expected index');
+      this.pos += match[0].length;
+      this.expect(']');
+      return { kind: 'index', index: parseInt(match[0]) };
+    }
+
+    const name = ch === '"' || ch === "'" ? this.readQuoted() : this.readUnquoted();
+    if (this.text[this.pos] === '{') return { kind: 'key', name, filter: this.readFilter() };
+    return { kind: 'key', name };
+  }
+
+  private readQuoted(): string {
+    const q = this.text[this.pos++];
+    let out = '';
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++];
+      if (ch === q) return out;
+      if (ch === '\\') {
+        const escaped = this.text[this.pos++];
+        if (escaped !== q && escaped !== '\\') this.fail(`invalid escape '\\${escaped ?? ''}'`);
+        out += escaped;
+      } else {
+        out += ch;
+      }
+    }
+    this.fail('unterminated string');
+  }
+
+  private readUnquoted(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && !RESERVED.test(this.text[this.pos])) this.pos++;
+    if (this.pos === start) this.fail('expected key');
+    return this.text.slice(start, this.pos);
+  }
+}
@@ -0,0 +1,26 @@
+import { NBTParser, NBTWriter } from './nbtParser';
+import type { WorkerRequest, WorkerResponse } from './nbtWorkerClient';
+
+// Worker globals aren't part of the DOM lib this project compiles against
+const ctx = self as unknown as {
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const progress = (done: number, total: number) => ctx.postMessage({ type: 'progress', done, total });
+
+ctx.onmessage = async (e) => {
+  const request = e.data;
+  try {
+    if (request.type === 'parse') {
+      const result = await NBTParser.parse(request.file, progress);
+      ctx.postMessage({ type: 'parsed', result });
+    } else {
+      const { root, compression, format, options } = request;
+      const bytes = NBTWriter.write(root, compression, format, { ...options, onProgress: progress });
+      ctx.postMessage({ type: 'written', bytes }, [bytes.buffer]);
+    }
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,76 @@
+import { NBTTag, NBTFormat, CompressionType, GzipHeader } from '../types';
+import { ParseResult, ProgressCallback } from './nbtParser';
+
+export type WorkerRequest =
+  | { type: 'parse'; file: File }
+  | {
+      type: 'write';
+      root: NBTTag;
+      compression: CompressionType;
+      format: NBTFormat;
+      options: { level?: number; gzipHeader?: GzipHeader; sizeHint?: number };
+    };
+
+export type WorkerResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'parsed'; result: ParseResult }
+  | { type: 'written'; bytes: Uint8Array }
+  | { type: 'error'; message: string };
+
+export interface WorkerTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export const isCancelled = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// One worker per task: cancelling simply terminates it
+const runTask = <T>(request: WorkerRequest, onProgress: ProgressCallback | undefined, pick: (res: WorkerResponse) => T | undefined): WorkerTask<T> => {
+  const worker = new Worker(new URL('./nbtWorker.ts', import.meta.url), { type: 'module' });
+  let reject: (e: unknown) => void = () => {};
+
+  const promise = new Promise<T>((res, rej) => {
+    reject = rej;
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.done, msg.total);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'error') {
+        rej(new Error(msg.message));
+        return;
+      }
+      const value = pick(msg);
+      if (value === undefined) rej(new Error(`Unexpected worker response ${msg.type}`));
+      else res(value);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      rej(new Error(e.message || "Worker failed"));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      reject(new DOMException('Cancelled', 'AbortError'));
+    },
+  };
+};
+
+export const parseInWorker = (file: File, onProgress?: ProgressCallback): WorkerTask<ParseResult> =>
+  runTask({ type: 'parse', file }, onProgress, res => res.type === 'parsed' ? res.result : undefined);
+
+export const writeInWorker = (
+  root: NBTTag,
+  compression: CompressionType,
+  format: NBTFormat,
+  options: { level?: number; gzipHeader?: GzipHeader; sizeHint?: number },
+  onProgress?: ProgressCallback
+): WorkerTask<Uint8Array> =>
+  runTask({ type: 'write', root, compression, format, options }, onProgress, res => res.type === 'written' ? res.bytes : undefined);
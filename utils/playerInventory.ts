@@ -0,0 +1,123 @@
+import { TagType, NBTTag } from '../types';
+import { inheritNodeId, copyTag } from './treeUtils';
+import { readItemStack } from './itemStack';
+
+// The two slot-addressed lists of a player file
+export type InventorySection = 'Inventory' | 'EnderItems';
+
+export interface SlotRef {
+  section: InventorySection;
+  slot: number;
+}
+
+// Hotbar 0-8, main 9-35; armor (100-103) and offhand (-106) are only reached by dragging
+const FREE_SLOTS: Record<InventorySection, number[]> = {
+  Inventory: Array.from({ length: 36 }, (_, i) => i),
+  EnderItems: Array.from({ length: 27 }, (_, i) => i),
+};
+
+const child = (tag: NBTTag, name: string): NBTTag | undefined =>
+  (tag.value as NBTTag[]).find(t => t.name === name);
+
+const slotOf = (item: NBTTag): number | undefined => {
+  const slot = item.type === TagType.Compound ? child(item, 'Slot') : undefined;
+  return slot ? Number(slot.value) : undefined;
+};
+
+const withSlot = (item: NBTTag, slot: number): NBTTag => {
+  const children = item.value as NBTTag[];
+  const i = children.findIndex(c => c.name === 'Slot');
+  if (i < 0) return inheritNodeId(item, { ...item, value: [{ type: TagType.Byte, name: 'Slot', value: slot }, ...children] });
+  const next = [...children];
+  next[i] = inheritNodeId(children[i], { ...children[i], value: slot });
+  return inheritNodeId(item, { ...item, value: next });
+};
+
+const itemsOf = (root: NBTTag, section: InventorySection): NBTTag[] => {
+  const list = child(root, section);
+  return list?.type === TagType.List ? list.value.list : [];
+};
+
+// Rebuilds only the sections `edit` touched; a missing list is created
+const editSections = (root: NBTTag, edit: (lists: Record<InventorySection, NBTTag[]>) => void): NBTTag => {
+  const before = { Inventory: itemsOf(root, 'Inventory'), EnderItems: itemsOf(root, 'EnderItems') };
+  const lists = { Inventory: [...before.Inventory], EnderItems: [...before.EnderItems] };
+  edit(lists);
+
+  let children = root.value as NBTTag[];
+  (Object.keys(lists) as InventorySection[]).forEach(section => {
+    const list = lists[section];
+    if (list.length === before[section].length && list.every((t, i) => t === before[section][i])) return;
+    const i = children.findIndex(c => c.name === section);
+    const value = { itemType: list.length ? TagType.Compound : TagType.End, list };
+    children = [...children];
+    if (i >= 0) children[i] = inheritNodeId(children[i], { ...children[i], type: TagType.List, value });
+    else children.push({ type: TagType.List, name: section, value });
+  });
+  return children === root.value ? root : inheritNodeId(root, { ...root, value: children });
+};
+
+const find = (lists: Record<InventorySection, NBTTag[]>, ref: SlotRef) => lists[ref.section].findIndex(t => slotOf(t) === ref.slot);
+
+const requireItem = (lists: Record<InventorySection, NBTTag[]>, ref: SlotRef): number => {
+  const i = find(lists, ref);
+  if (i < 0) throw new Error('這個格子沒有物品');
+  return i;
+};
+
+export const findFreeSlot = (root: NBTTag, section: InventorySection): number | null => {
+  const used = new Set(itemsOf(root, section).map(slotOf));
+  return FREE_SLOTS[section].find(s => !used.has(s)) ?? null;
+};
+
+// Moving onto an occupied slot swaps the two stacks
+export const moveItem = (root: NBTTag, from: SlotRef, to: SlotRef): NBTTag => {
+  if (from.section === to.section && from.slot === to.slot) return root;
+  return editSections(root, lists => {
+    const source = lists[from.section][requireItem(lists, from)];
+    const targetIndex = find(lists, to);
+    const target = targetIndex >= 0 ? lists[to.section][targetIndex] : null;
+    lists[from.section] = lists[from.section].filter(t => t !== source);
+    if (target) lists[to.section] = lists[to.section].filter(t => t !== target);
+    lists[to.section].push(withSlot(source, to.slot));
+    if (target) lists[from.section].push(withSlot(target, from.slot));
+  });
+};
+
+// Sends a stack to the first empty slot of the other section
+export const transferItem = (root: NBTTag, from: SlotRef): NBTTag => {
+  const section: InventorySection = from.section === 'Inventory' ? 'EnderItems' : 'Inventory';
+  const slot = findFreeSlot(root, section);
+  if (slot === null) throw new Error(section === 'Inventory' ? '物品欄已滿' : '終界箱已滿');
+  return moveItem(root, from, { section, slot });
+};
+
+export const deleteItem = (root: NBTTag, ref: SlotRef): NBTTag =>
+  editSections(root, lists => {
+    lists[ref.section].splice(requireItem(lists, ref), 1);
+  });
+
+export const duplicateItem = (root: NBTTag, ref: SlotRef): NBTTag => {
+  const slot = findFreeSlot(root, ref.section);
+  if (slot === null) throw new Error('沒有空的格子可以放置複製的物品');
+  return editSections(root, lists => {
+    lists[ref.section].push(withSlot(copyTag(lists[ref.section][requireItem(lists, ref)]), slot));
+  });
+};
+
+// Legacy stacks store Count as a Byte; 1.20.5+ stores count as an Int capped at 99
+export const setItemCount = (root: NBTTag, ref: SlotRef, count: number): NBTTag =>
+  editSections(root, lists => {
+    const i = requireItem(lists, ref);
+    const item = lists[ref.section][i];
+    const modern = readItemStack(item)?.format === 'components';
+    const max = modern ? 99 : 127;
+    if (!Number.isInteger(count) || count < 1 || count > max) throw new Error(`數量必須是 1 ~ ${max} 的整數`);
+    const children = item.value as NBTTag[];
+    const name = modern ? 'count' : 'Count';
+    const j = children.findIndex(c => c.name === name);
+    const next = [...children];
+    if (j >= 0) next[j] = inheritNodeId(children[j], { ...children[j], value: children[j].type === TagType.Long ? BigInt(count) : count });
+    else next.push({ type: modern ? TagType.Int : TagType.Byte, name, value: count });
+    lists[ref.section][i] = inheritNodeId(item, { ...item, value: next });
+  });
@@ -0,0 +1,211 @@
+import pako from 'pako';
+import { ChunkCompression, NBTTag, RegionChunk, RegionData } from '../types';
+import { NBTParser, NBTWriter } from './nbtParser';
+
+const SECTOR_SIZE = 4096;
+const HEADER_SECTORS = 2; // Location table + timestamp table
+const EXTERNAL_FLAG = 0x80;
+const LZ4_MAGIC = 'LZ4Block';
+
+export const CHUNKS_PER_REGION = 1024;
+
+export const ChunkCompressionNames: Record<ChunkCompression, string> = {
+  [ChunkCompression.GZip]: 'GZip',
+  [ChunkCompression.Zlib]: 'Zlib',
+  [ChunkCompression.None]: '未壓縮',
+  [ChunkCompression.LZ4]: 'LZ4',
+};
+
+export const isRegionFilename = (filename: string) => /\.(mca|mcr)$/i.test(filename);
+
+const toArrayBuffer = (u8: Uint8Array): ArrayBuffer =>
+  u8.byteOffset === 0 && u8.byteLength === u8.buffer.byteLength ? u8.buffer as ArrayBuffer : u8.slice().buffer;
+
+// Decodes a single LZ4 block (no frame header)
+const lz4DecompressBlock = (src: Uint8Array, dst: Uint8Array) => {
+  let ip = 0;
+  let op = 0;
+  while (ip < src.length) {
+    const token = src[ip++];
+
+    let litLen = token >> 4;
+    if (litLen === 15) {
+      let b;
+      do { b = src[ip++]; litLen += b; } while (b === 255);
+    }
+    dst.set(src.subarray(ip, ip + litLen), op);
+    ip += litLen;
+    op += litLen;
+    if (ip >= src.length) break; // Last sequence has no match part
+
+    const offset = src[ip] | (src[ip + 1] << 8);
+    ip += 2;
+    if (offset === 0 || offset > op) throw new Error("Invalid LZ4 match offset");
+
+    let matchLen = token & 0x0f;
+    if (matchLen === 15) {
+      let b;
+      do { b = src[ip++]; matchLen += b; } while (b === 255);
+    }
+    matchLen += 4;
+    // Byte by byte, matches may overlap their own output
+    for (let i = 0; i < matchLen; i++, op++) dst[op] = dst[op - offset];
+  }
+};
+
+// Minecraft uses lz4-java's LZ4BlockOutputStream framing: a sequence of
+// "LZ4Block" headers each followed by one raw or LZ4 compressed block
+const lz4BlockStreamDecompress = (data: Uint8Array): Uint8Array => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  let offset = 0;
+
+  while (offset + 21 <= data.length) {
+    const magic = String.fromCharCode(...data.subarray(offset, offset + 8));
+    if (magic !== LZ4_MAGIC) throw new Error("Invalid LZ4 block header");
+    const method = data[offset + 8] & 0xf0;
+    const compressedLen = view.getInt32(offset + 9, true);
+    const originalLen = view.getInt32(offset + 13, true);
+    offset += 21; // Skip checksum as well
+    if (originalLen === 0) break; // End-of-stream marker
+
+    const block = data.subarray(offset, offset + compressedLen);
+    if (method === 0x10) {
+      parts.push(block);
+    } else if (method === 0x20) {
+      const out = new Uint8Array(originalLen);
+      lz4DecompressBlock(block, out);
+      parts.push(out);
+    } else {
+      throw new Error(`Unsupported LZ4 block method ${method}`);
+    }
+    total += originalLen;
+    offset += compressedLen;
+  }
+
+  const result = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    result.set(part, pos);
+    pos += part.length;
+  }
+  return result;
+};
+
+export class RegionParser {
+  // Only reads the header; chunk payloads stay compressed until opened
+  static parse(buffer: ArrayBuffer, filename: string): RegionData {
+    if (buffer.byteLength < HEADER_SECTORS * SECTOR_SIZE) {
+      if (buffer.byteLength === 0) return { ...RegionParser.coordsFromFilename(filename), chunks: new Array(CHUNKS_PER_REGION).fill(null) };
+      throw new Error("Region file is smaller than its header");
+    }
+
+    const view = new DataView(buffer);
+    const chunks: (RegionChunk | null)[] = [];
+
+    for (let i = 0; i < CHUNKS_PER_REGION; i++) {
+      const location = view.getUint32(i * 4);
+      const sectorOffset = location >>> 8;
+      const sectorCount = location & 0xff;
+      if (sectorOffset === 0 || sectorCount === 0) {
+        chunks.push(null);
+        continue;
+      }
+
+      const start = sectorOffset * SECTOR_SIZE;
+      if (start + 5 > buffer.byteLength) {
+        console.warn(`Chunk ${i} points past the end of the file`);
+        chunks.push(null);
+        continue;
+      }
+
+      const length = view.getUint32(start); // Includes the compression byte
+      const compressionByte = view.getUint8(start + 4);
+      const end = Math.min(start + 4 + length, buffer.byteLength);
+
+      chunks.push({
+        x: i % 32,
+        z: Math.floor(i / 32),
+        timestamp: view.getUint32(SECTOR_SIZE + i * 4),
+        compression: (compressionByte & ~EXTERNAL_FLAG) as ChunkCompression,
+        external: (compressionByte & EXTERNAL_FLAG) !== 0,
+        data: new Uint8Array(buffer, start + 5, Math.max(0, end - start - 5)),
+      });
+    }
+
+    return { ...RegionParser.coordsFromFilename(filename), chunks };
+  }
+
+  static coordsFromFilename(filename: string): { regionX: number | null; regionZ: number | null } {
+    const match = filename.match(/r\.(-?\d+)\.(-?\d+)\.mc[ar]$/i);
+    return match
+      ? { regionX: parseInt(match[1]), regionZ: parseInt(match[2]) }
+      : { regionX: null, regionZ: null };
+  }
+
+  static readChunk(chunk: RegionChunk): NBTTag {
+    if (chunk.external) throw new Error("Chunk is stored in an external .mcc file");
+
+    let raw: Uint8Array;
+    switch (chunk.compression) {
+      case ChunkCompression.GZip: raw = pako.ungzip(chunk.data); break;
+      case ChunkCompression.Zlib: raw = pako.inflate(chunk.data); break;
+      case ChunkCompression.None: raw = chunk.data; break;
+      case ChunkCompression.LZ4: raw = lz4BlockStreamDecompress(chunk.data); break;
+      default: throw new Error(`Unknown chunk compression ${chunk.compression}`);
+    }
+    return NBTParser.read(toArrayBuffer(raw));
+  }
+}
+
+export class RegionWriter {
+  // LZ4 chunks are written back as zlib, which every version that reads LZ4 also accepts
+  static encodeChunk(chunk: RegionChunk, root: NBTTag): RegionChunk {
+    const raw = NBTWriter.write(root, 'none');
+    let compression = chunk.compression;
+    let data: Uint8Array;
+    switch (compression) {
+      case ChunkCompression.GZip: data = pako.gzip(raw); break;
+      case ChunkCompression.None: data = raw; break;
+      default:
+        compression = ChunkCompression.Zlib;
+        data = pako.deflate(raw);
+    }
+    return {
+      ...chunk,
+      compression,
+      data,
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  // Lays chunks out back to back after the header, recomputing every location entry
+  static write(region: RegionData): Uint8Array {
+    const payloads = region.chunks.map(chunk => {
+      if (!chunk) return null;
+      const sectors = Math.ceil((chunk.data.length + 5) / SECTOR_SIZE);
+      if (sectors > 255) throw new Error(`Chunk [${chunk.x}, ${chunk.z}] exceeds 1 MiB and cannot be stored in the region`);
+      return { chunk, sectors };
+    });
+
+    const totalSectors = payloads.reduce((sum, p) => sum + (p ? p.sectors : 0), HEADER_SECTORS);
+    const out = new Uint8Array(totalSectors * SECTOR_SIZE);
+    const view = new DataView(out.buffer);
+
+    let sector = HEADER_SECTORS;
+    payloads.forEach((p, i) => {
+      if (!p) return;
+      const { chunk, sectors } = p;
+      const start = sector * SECTOR_SIZE;
+      view.setUint32(i * 4, (sector << 8) | sectors);
+      view.setUint32(SECTOR_SIZE + i * 4, chunk.timestamp);
+      view.setUint32(start, chunk.data.length + 1);
+      view.setUint8(start + 4, chunk.compression | (chunk.external ? EXTERNAL_FLAG : 0));
+      out.set(chunk.data, start + 5);
+      sector += sectors;
+    });
+
+    return out;
+  }
+}
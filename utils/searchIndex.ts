@@ -0,0 +1,64 @@
+import { TagType, NBTTag } from '../types';
+import type { PathMatch } from './nbtPath';
+
+// Recently used terms keep their counts, so backspacing in the search box doesn't rescan
+const MAX_CACHED_TERMS = 8;
+
+const childrenOf = (tag: NBTTag): NBTTag[] =>
+  tag.type === TagType.Compound ? tag.value : tag.type === TagType.List ? tag.value.list : [];
+
+// Case-insensitive name/value search over one file's tree.
+// Everything is cached per tag object; since edits only replace the tags on the path to the change,
+// searching again after an edit only revisits that path and reuses every untouched subtree.
+export class SearchIndex {
+  private texts = new WeakMap<NBTTag, string>();
+  private counts = new Map<string, WeakMap<NBTTag, number>>();
+
+  search(root: NBTTag, term: string): PathMatch[] {
+    const needle = term.toLowerCase();
+    if (!needle) return [];
+    const counts = this.countsFor(needle);
+
+    const hits: PathMatch[] = [];
+    const collect = (tag: NBTTag, indices: number[]) => {
+      if (this.count(tag, needle, counts) === 0) return;
+      if (this.text(tag).includes(needle)) hits.push({ tag, indices });
+      childrenOf(tag).forEach((child, idx) => collect(child, [...indices, idx]));
+    };
+    collect(root, []);
+    return hits;
+  }
+
+  private countsFor(needle: string): WeakMap<NBTTag, number> {
+    let counts = this.counts.get(needle);
+    if (counts) {
+      this.counts.delete(needle); // Re-inserted below to mark it most recently used
+    } else {
+      counts = new WeakMap();
+      if (this.counts.size >= MAX_CACHED_TERMS) this.counts.delete(this.counts.keys().next().value!);
+    }
+    this.counts.set(needle, counts);
+    return counts;
+  }
+
+  // Name and value joined by a character the search box can't produce, so a term never spans both
+  private text(tag: NBTTag): string {
+    let text = this.texts.get(tag);
+    if (text === undefined) {
+      const value = tag.value !== null && typeof tag.value !== 'object' ? String(tag.value) : '';
+      text = `${tag.name ?? ''}\u0000${value}`.toLowerCase();
+      this.texts.set(tag, text);
+    }
+    return text;
+  }
+
+  // Number of matches in the subtree, including the tag itself
+  private count(tag: NBTTag, needle: string, counts: WeakMap<NBTTag, number>): number {
+    let n = counts.get(tag);
+    if (n !== undefined) return n;
+    n = this.text(tag).includes(needle) ? 1 : 0;
+    for (const child of childrenOf(tag)) n += this.count(child, needle, counts);
+    counts.set(tag, n);
+    return n;
+  }
+}
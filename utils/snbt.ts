@@ -0,0 +1,253 @@
+import { TagType, NBTTag } from '../types';
+
+// Keys and unquoted strings may only use these characters
+const UNQUOTED = /^[0-9A-Za-z_\-.+]+$/;
+
+const BYTE_PATTERN = /^[-+]?(?:0|[1-9][0-9]*)b$/i;
+const SHORT_PATTERN = /^[-+]?(?:0|[1-9][0-9]*)s$/i;
+const INT_PATTERN = /^[-+]?(?:0|[1-9][0-9]*)$/;
+const LONG_PATTERN = /^[-+]?(?:0|[1-9][0-9]*)l$/i;
+const FLOAT_PATTERN = /^[-+]?(?:[0-9]+[.]?|[0-9]*[.][0-9]+)(?:e[-+]?[0-9]+)?f$/i;
+const DOUBLE_PATTERN = /^[-+]?(?:[0-9]+[.]?|[0-9]*[.][0-9]+)(?:e[-+]?[0-9]+)?d$/i;
+const DOUBLE_NO_SUFFIX_PATTERN = /^[-+]?(?:[0-9]+[.]|[0-9]*[.][0-9]+)(?:e[-+]?[0-9]+)?$/i;
+
+// Typed array prefix -> [array type, element type, value constructor]
+const ARRAY_TYPES: Record<string, [TagType, TagType, (values: any[]) => ArrayLike<any>]> = {
+  B: [TagType.ByteArray, TagType.Byte, v => Int8Array.from(v)],
+  I: [TagType.IntArray, TagType.Int, v => Int32Array.from(v)],
+  L: [TagType.LongArray, TagType.Long, v => BigInt64Array.from(v)],
+};
+
+const FLOAT_MAX = 3.4028234663852886e38;
+
+// SNBT has no NaN or Infinity (the game reads "NaNd" back as a string), so they become 0 and the largest finite value
+const finite = (v: number, max: number): number => Number.isNaN(v) ? 0 : Math.max(-max, Math.min(max, v));
+
+// String(-0) is "0", which would drop the sign
+const formatDouble = (d: number): string => Object.is(d, -0) ? '-0.0' : String(d);
+
+// Shortest decimal that reads back as the same 32-bit float
+const formatFloat = (f: number): string => {
+  if (Object.is(f, -0)) return '-0.0';
+  for (let p = 1; p <= 9; p++) {
+    const s = f.toPrecision(p);
+    if (Math.fround(parseFloat(s)) === f) return String(parseFloat(s));
+  }
+  return String(f);
+};
+
+const quote = (s: string): string => {
+  // Prefer double quotes, fall back to single quotes when that avoids escaping
+  const q = s.includes('"') && !s.includes("'") ? "'" : '"';
+  return q + s.replace(/\\/g, '\\\\').split(q).join('\\' + q) + q;
+};
+
+export class SNBTWriter {
+  static write(tag: NBTTag): string {
+    return SNBTWriter.writeValue(tag.type, tag.value);
+  }
+
+  static writeKey(name: string): string {
+    return UNQUOTED.test(name) ? name : quote(name);
+  }
+
+  private static writeValue(type: TagType, value: any): string {
+    switch (type) {
+      case TagType.Byte: return `${value}b`;
+      case TagType.Short: return `${value}s`;
+      case TagType.Int: return `${value}`;
+      case TagType.Long: return `${BigInt(value)}L`;
+      case TagType.Float: return `${formatFloat(finite(value, FLOAT_MAX))}f`;
+      case TagType.Double: return `${formatDouble(finite(value, Number.MAX_VALUE))}d`;
+      case TagType.String: return quote(value);
+      case TagType.ByteArray:
+        return `[B;${Array.from(value as ArrayLike<number>, b => `${b}b`).join(',')}]`;
+      case TagType.IntArray:
+        return `[I;${Array.from(value as ArrayLike<number>).join(',')}]`;
+      case TagType.LongArray:
+        return `[L;${Array.from(value as ArrayLike<bigint>, l => `${BigInt(l)}L`).join(',')}]`;
+      case TagType.List:
+        return `[${(value.list as NBTTag[]).map(item => SNBTWriter.writeValue(item.type, item.value)).join(',')}]`;
+      case TagType.Compound:
+        return `{${(value as NBTTag[]).map(child => `${SNBTWriter.writeKey(child.name || '')}:${SNBTWriter.writeValue(child.type, child.value)}`).join(',')}}`;
+      default:
+        return '';
+    }
+  }
+}
+
+export class SNBTParser {
+  private text: string;
+  private pos: number = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  static parse(text: string): NBTTag {
+    const parser = new SNBTParser(text);
+    const tag = parser.readValue();
+    parser.skipWhitespace();
+    if (parser.pos < text.length) parser.fail('unexpected trailing data');
+    return tag;
+  }
+
+  // Reads one value starting at `start` and reports where it ended, for SNBT embedded in other syntax
+  static parseAt(text: string, start: number): { tag: NBTTag; end: number } {
+    const parser = new SNBTParser(text);
+    parser.pos = start;
+    const tag = parser.readValue();
+    return { tag, end: parser.pos };
+  }
+
+  private fail(message: string): never {
+    throw new Error(`SNBT syntax error at ${this.pos}: ${message}`);
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private peek(): string {
+    this.skipWhitespace();
+    return this.text[this.pos];
+  }
+
+  private expect(ch: string) {
+    if (this.peek() !== ch) this.fail(`expected '${ch}'`);
+    this.pos++;
+  }
+
+  private readQuoted(): string {
+    const q = this.text[this.pos++];
+    let out = '';
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++];
+      if (ch === '\\') {
+        if (this.pos >= this.text.length) break;
+        const escaped = this.text[this.pos++];
+        if (escaped !== '\\' && escaped !== '"' && escaped !== "'") this.fail(`invalid escape '\\${escaped}'`);
+        out += escaped;
+      } else if (ch === q) {
+        return out;
+      } else {
+        out += ch;
+      }
+    }
+    return this.fail('unterminated string');
+  }
+
+  private readUnquoted(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && UNQUOTED.test(this.text[this.pos])) this.pos++;
+    if (this.pos === start) this.fail('expected value');
+    return this.text.slice(start, this.pos);
+  }
+
+  private readKey(): string {
+    const ch = this.peek();
+    return ch === '"' || ch === "'" ? this.readQuoted() : this.readUnquoted();
+  }
+
+  private readValue(): NBTTag {
+    const ch = this.peek();
+    if (ch === undefined) this.fail('unexpected end of input');
+    if (ch === '{') return this.readCompound();
+    if (ch === '[') {
+      const prefix = this.text.slice(this.pos + 1, this.pos + 3);
+      if (/^[BIL];$/.test(prefix)) return this.readArray(prefix[0]);
+      return this.readList();
+    }
+    if (ch === '"' || ch === "'") return { type: TagType.String, name: null, value: this.readQuoted() };
+    return this.typeUnquoted(this.readUnquoted());
+  }
+
+  // Same rules as the game: anything that doesn't fit a numeric type is a plain string
+  private typeUnquoted(token: string): NBTTag {
+    const number = (type: TagType, value: any): NBTTag => ({ type, name: null, value });
+    const inRange = (v: number, min: number, max: number) => v >= min && v <= max;
+
+    if (BYTE_PATTERN.test(token)) {
+      const v = parseInt(token.slice(0, -1));
+      if (inRange(v, -128, 127)) return number(TagType.Byte, v);
+    } else if (SHORT_PATTERN.test(token)) {
+      const v = parseInt(token.slice(0, -1));
+      if (inRange(v, -32768, 32767)) return number(TagType.Short, v);
+    } else if (INT_PATTERN.test(token)) {
+      const v = parseInt(token);
+      if (inRange(v, -2147483648, 2147483647)) return number(TagType.Int, v);
+    } else if (LONG_PATTERN.test(token)) {
+      const v = BigInt(token.slice(0, -1));
+      if (v >= -(2n ** 63n) && v < 2n ** 63n) return number(TagType.Long, v);
+    } else if (FLOAT_PATTERN.test(token)) {
+      return number(TagType.Float, Math.fround(parseFloat(token.slice(0, -1))));
+    } else if (DOUBLE_PATTERN.test(token)) {
+      return number(TagType.Double, parseFloat(token.slice(0, -1)));
+    } else if (DOUBLE_NO_SUFFIX_PATTERN.test(token)) {
+      return number(TagType.Double, parseFloat(token));
+    } else if (token === 'true' || token === 'false') {
+      return number(TagType.Byte, token === 'true' ? 1 : 0);
+    }
+    return { type: TagType.String, name: null, value: token };
+  }
+
+  private readCompound(): NBTTag {
+    this.expect('{');
+    const children: NBTTag[] = [];
+    if (this.peek() === '}') {
+      this.pos++;
+      return { type: TagType.Compound, name: null, value: children };
+    }
+    while (true) {
+      const name = this.readKey();
+      if (children.some(c => c.name === name)) this.fail(`duplicate key '${name}'`);
+      this.expect(':');
+      children.push({ ...this.readValue(), name });
+      const next = this.peek();
+      this.pos++;
+      if (next === '}') break;
+      if (next !== ',') this.fail("expected ',' or '}'");
+    }
+    return { type: TagType.Compound, name: null, value: children };
+  }
+
+  private readList(): NBTTag {
+    this.expect('[');
+    const list: NBTTag[] = [];
+    if (this.peek() === ']') {
+      this.pos++;
+      return { type: TagType.List, name: null, value: { itemType: TagType.End, list } };
+    }
+    while (true) {
+      const item = this.readValue();
+      if (list.length > 0 && item.type !== list[0].type) this.fail('list elements must share one type');
+      list.push(item);
+      const next = this.peek();
+      this.pos++;
+      if (next === ']') break;
+      if (next !== ',') this.fail("expected ',' or ']'");
+    }
+    return { type: TagType.List, name: null, value: { itemType: list[0].type, list } };
+  }
+
+  private readArray(prefix: string): NBTTag {
+    this.pos += 3; // '[' + prefix + ';'
+    const [arrayType, elementType, toTyped] = ARRAY_TYPES[prefix];
+
+    const values: any[] = [];
+    if (this.peek() === ']') {
+      this.pos++;
+      return { type: arrayType, name: null, value: toTyped(values) };
+    }
+    while (true) {
+      const item = this.readValue();
+      if (item.type !== elementType) this.fail(`invalid element in [${prefix};] array`);
+      values.push(item.value);
+      const next = this.peek();
+      this.pos++;
+      if (next === ']') break;
+      if (next !== ',') this.fail("expected ',' or ']'");
+    }
+    return { type: arrayType, name: null, value: toTyped(values) };
+  }
+}
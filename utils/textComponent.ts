@@ -0,0 +1,345 @@
+import { TagType, NBTTag } from '../types';
+
+export interface TextStyle {
+  color?: string; // CSS color
+  bold?: boolean;
+  italic?: boolean;
+  underlined?: boolean;
+  strikethrough?: boolean;
+  obfuscated?: boolean;
+}
+
+export interface TextSegment extends TextStyle {
+  text: string;
+}
+
+export const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  dark_blue: '#0000AA',
+  dark_green: '#00AA00',
+  dark_aqua: '#00AAAA',
+  dark_red: '#AA0000',
+  dark_purple: '#AA00AA',
+  gold: '#FFAA00',
+  gray: '#AAAAAA',
+  dark_gray: '#555555',
+  blue: '#5555FF',
+  green: '#55FF55',
+  aqua: '#55FFFF',
+  red: '#FF5555',
+  light_purple: '#FF55FF',
+  yellow: '#FFFF55',
+  white: '#FFFFFF',
+};
+
+// §0-§f pick a color (in NAMED_COLORS order), §k-§o a format, §r resets
+const LEGACY_COLORS = Object.values(NAMED_COLORS);
+const LEGACY_FORMATS: Record<string, keyof TextStyle> = { k: 'obfuscated', l: 'bold', m: 'strikethrough', n: 'underlined', o: 'italic' };
+
+export const colorToCss = (color: unknown): string | undefined => {
+  if (typeof color !== 'string') return undefined;
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+  return /^#[0-9a-f]{6}$/i.test(color) ? color : undefined;
+};
+
+// Plain strings may still carry § codes, from old plugins or items renamed in an anvil with a client mod
+export const parseLegacyText = (text: string, base: TextStyle = {}): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let style: TextStyle = { ...base };
+  const parts = text.split(/§(.)/);
+  parts.forEach((part, i) => {
+    if (i % 2 === 0) {
+      if (part) segments.push({ ...style, text: part });
+      return;
+    }
+    const code = part.toLowerCase();
+    const color = parseInt(code, 16);
+    if (/^[0-9a-f]$/.test(code)) style = { color: LEGACY_COLORS[color] }; // A color code clears formats, as in-game
+    else if (code === 'r') style = { ...base };
+    else if (LEGACY_FORMATS[code]) style = { ...style, [LEGACY_FORMATS[code]]: true };
+  });
+  return segments;
+};
+
+export type StyleFlag = Exclude<keyof TextStyle, 'color'>;
+
+export const STYLE_KEYS: StyleFlag[] = ['bold', 'italic', 'underlined', 'strikethrough', 'obfuscated'];
+
+// Parsed JSON is untrusted; fields are narrowed with typeof before use
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : null;
+
+// Children inherit their parent's style; `translate` shows its fallback, or the key with its arguments
+const flatten = (component: unknown, inherited: TextStyle, out: TextSegment[]) => {
+  if (typeof component === 'string' || typeof component === 'number' || typeof component === 'boolean') {
+    out.push(...parseLegacyText(String(component), inherited));
+    return;
+  }
+  if (Array.isArray(component)) {
+    // The first element's style carries over to the rest of the array
+    if (component.length === 0) return;
+    const first = component[0];
+    const firstObject = asObject(first);
+    const style = firstObject ? styleOf(firstObject, inherited) : inherited;
+    flatten(first, inherited, out);
+    component.slice(1).forEach(c => flatten(c, style, out));
+    return;
+  }
+  const c = asObject(component);
+  if (!c) return;
+  const style = styleOf(c, inherited);
+  if (c.text !== undefined) out.push(...parseLegacyText(String(c.text), style));
+  else if (c.translate !== undefined) {
+    const args: unknown[] = Array.isArray(c.with) ? c.with : [];
+    if (c.fallback !== undefined) out.push(...parseLegacyText(String(c.fallback), style));
+    else {
+      out.push({ ...style, text: String(c.translate) });
+      args.forEach((arg, i) => {
+        out.push({ ...style, text: i === 0 ? ' (' : ', ' });
+        flatten(arg, style, out);
+      });
+      if (args.length) out.push({ ...style, text: ')' });
+    }
+  } else if (c.keybind !== undefined) out.push({ ...style, text: `[${String(c.keybind)}]` });
+  else if (c.score !== undefined) {
+    const score = asObject(c.score);
+    out.push({ ...style, text: `${String(score?.name ?? '')}:${String(score?.objective ?? '')}` });
+  }
+  else if (c.selector !== undefined) out.push({ ...style, text: String(c.selector) });
+  if (Array.isArray(c.extra)) c.extra.forEach((e: unknown) => flatten(e, style, out));
+};
+
+const styleOf = (c: JsonObject, inherited: TextStyle): TextStyle => {
+  const style: TextStyle = { ...inherited };
+  const color = colorToCss(c.color);
+  if (color) style.color = color;
+  STYLE_KEYS.forEach(key => {
+    const value = c[key];
+    if (typeof value === 'boolean') style[key] = value;
+    else if (value === 1 || value === 0) style[key] = value === 1; // Bytes, when read back from NBT
+  });
+  return style;
+};
+
+export const flattenTextComponent = (component: unknown, base: TextStyle = {}): TextSegment[] => {
+  const out: TextSegment[] = [];
+  flatten(component, base, out);
+  return out;
+};
+
+// Item names and lore are JSON strings up to 1.21.4; anything that isn't JSON is shown as legacy text
+export const parseTextComponent = (raw: string, base: TextStyle = {}): TextSegment[] => {
+  try {
+    return flattenTextComponent(JSON.parse(raw), base);
+  } catch {
+    return parseLegacyText(raw, base);
+  }
+};
+
+// 1.21.5+ stores text components as NBT compounds and lists instead of JSON strings
+export const tagToJson = (tag: NBTTag): unknown => {
+  switch (tag.type) {
+    case TagType.Compound: return Object.fromEntries((tag.value as NBTTag[]).map(c => [c.name ?? '', tagToJson(c)]));
+    case TagType.List: return (tag.value.list as NBTTag[]).map(tagToJson);
+    case TagType.Long: return Number(tag.value);
+    case TagType.ByteArray:
+    case TagType.IntArray:
+    case TagType.LongArray: return Array.from(tag.value as ArrayLike<number | bigint>, Number);
+    default: return tag.value;
+  }
+};
+
+export const textComponentFromTag = (tag: NBTTag, base: TextStyle = {}): TextSegment[] =>
+  tag.type === TagType.String ? parseTextComponent(tag.value, base) : flattenTextComponent(tagToJson(tag), base);
+
+export const plainText = (segments: TextSegment[]): string => segments.map(s => s.text).join('');
+
+// --- Validation ---
+
+const CONTENT_KEYS = ['text', 'translate', 'keybind', 'score', 'selector', 'nbt'];
+const CLICK_ACTIONS = ['open_url', 'run_command', 'suggest_command', 'change_page', 'copy_to_clipboard'];
+const HOVER_ACTIONS = ['show_text', 'show_item', 'show_entity'];
+
+const isClickAction = (value: unknown): value is ClickAction => typeof value === 'string' && CLICK_ACTIONS.includes(value);
+
+// Mirrors what the client's deserializer rejects, so a file that passes here won't kick players on load
+export const validateTextComponent = (component: unknown, path = '$'): string[] => {
+  if (typeof component === 'string') return [];
+  if (typeof component === 'number' || typeof component === 'boolean') return [];
+  if (Array.isArray(component)) {
+    if (component.length === 0) return [`${path}: 陣列不可為空`];
+    return component.flatMap((c, i) => validateTextComponent(c, `${path}[${i}]`));
+  }
+  const c = asObject(component);
+  if (!c) return [`${path}: 必須是字串、物件或陣列`];
+
+  const errors: string[] = [];
+  if (!CONTENT_KEYS.some(key => key in c)) errors.push(`${path}: 缺少內容欄位 (${CONTENT_KEYS.join(' / ')})`);
+  if ('text' in c && typeof c.text !== 'string') errors.push(`${path}.text: 必須是字串`);
+  if ('translate' in c && typeof c.translate !== 'string') errors.push(`${path}.translate: 必須是字串`);
+  if ('color' in c && !colorToCss(c.color)) errors.push(`${path}.color: 無效的顏色 "${String(c.color)}"，應為顏色名稱或 #RRGGBB`);
+  STYLE_KEYS.forEach(key => {
+    if (key in c && typeof c[key] !== 'boolean') errors.push(`${path}.${key}: 必須是 true 或 false`);
+  });
+  if ('extra' in c) {
+    if (!Array.isArray(c.extra) || c.extra.length === 0) errors.push(`${path}.extra: 必須是非空陣列`);
+    else errors.push(...c.extra.flatMap((e, i) => validateTextComponent(e, `${path}.extra[${i}]`)));
+  }
+  if ('with' in c) {
+    if (!Array.isArray(c.with)) errors.push(`${path}.with: 必須是陣列`);
+    else errors.push(...c.with.flatMap((e, i) => validateTextComponent(e, `${path}.with[${i}]`)));
+  }
+  if ('clickEvent' in c) {
+    const e = asObject(c.clickEvent);
+    if (!e || !isClickAction(e.action)) errors.push(`${path}.clickEvent.action: 必須是 ${CLICK_ACTIONS.join(' / ')}`);
+    else if (typeof e.value !== 'string') errors.push(`${path}.clickEvent.value: 必須是字串`);
+  }
+  if ('hoverEvent' in c) {
+    const e = asObject(c.hoverEvent);
+    if (!e || typeof e.action !== 'string' || !HOVER_ACTIONS.includes(e.action)) errors.push(`${path}.hoverEvent.action: 必須是 ${HOVER_ACTIONS.join(' / ')}`);
+    else if (e.contents === undefined && e.value === undefined) errors.push(`${path}.hoverEvent: 缺少 contents`);
+    else if (e.action === 'show_text') errors.push(...validateTextComponent(e.contents ?? e.value, `${path}.hoverEvent.contents`));
+  }
+  return errors;
+};
+
+// --- Flat runs for the structured editor ---
+
+export type ClickAction = 'open_url' | 'run_command' | 'suggest_command' | 'change_page' | 'copy_to_clipboard';
+
+// Style flags are three-state: undefined inherits, which matters for names and lore that default to italic
+export interface TextRun {
+  text: string;
+  color?: string; // Name or #RRGGBB, as written in the JSON
+  bold?: boolean;
+  italic?: boolean;
+  underlined?: boolean;
+  strikethrough?: boolean;
+  obfuscated?: boolean;
+  click?: { action: ClickAction; value: string };
+  hover?: string; // show_text with plain contents
+}
+
+export const CLICK_ACTION_LIST = CLICK_ACTIONS as ClickAction[];
+
+const RUN_KEYS = new Set(['text', 'color', ...STYLE_KEYS, 'clickEvent', 'hoverEvent']);
+
+const runOf = (c: unknown): TextRun | null => {
+  if (typeof c === 'string') return { text: c };
+  const o = asObject(c);
+  if (!o || typeof o.text !== 'string' || Object.keys(o).some(k => !RUN_KEYS.has(k))) return null;
+  const run: TextRun = { text: o.text };
+  if (typeof o.color === 'string') run.color = o.color;
+  STYLE_KEYS.forEach(key => {
+    const value = o[key];
+    if (typeof value === 'boolean') run[key] = value;
+  });
+  if (o.clickEvent) {
+    const click = asObject(o.clickEvent);
+    if (!click || !isClickAction(click.action) || typeof click.value !== 'string') return null;
+    run.click = { action: click.action, value: click.value };
+  }
+  if (o.hoverEvent) {
+    const hover = asObject(o.hoverEvent);
+    const contents = hover?.contents ?? hover?.value;
+    if (hover?.action !== 'show_text' || typeof contents !== 'string') return null;
+    run.hover = contents;
+  }
+  return run;
+};
+
+// Only components that are a sequence of plain text runs fit the structured editor;
+// anything with translations, selectors or nested styling stays in the JSON editor
+export const componentToRuns = (component: unknown): TextRun[] | null => {
+  if (Array.isArray(component)) {
+    const runs = component.map(runOf);
+    return runs.every((r): r is TextRun => r !== null) ? runs : null;
+  }
+  if (typeof component === 'string') return [{ text: component }];
+  const c = asObject(component);
+  if (!c) return null;
+  const root = runOf(c);
+  if (root) return [root];
+  // The usual vanilla shape: {"text":"","extra":[...]}
+  const { extra, ...head } = c;
+  if (!Array.isArray(extra) || extra.length === 0 || head.text !== '' || Object.keys(head).length !== 1) return null;
+  const runs = extra.map(runOf);
+  return runs.every((r): r is TextRun => r !== null) ? runs : null;
+};
+
+const runToJson = (run: TextRun): unknown => {
+  const o: Record<string, unknown> = { text: run.text };
+  if (run.color) o.color = run.color;
+  STYLE_KEYS.forEach(key => { if (run[key] !== undefined) o[key] = run[key]; });
+  if (run.click) o.clickEvent = { ...run.click };
+  if (run.hover) o.hoverEvent = { action: 'show_text', contents: run.hover };
+  return o;
+};
+
+export const runsToComponent = (runs: TextRun[]): unknown => {
+  if (runs.length === 1) return runToJson(runs[0]);
+  return { text: '', extra: runs.map(runToJson) };
+};
+
+// --- Detecting text fields in a tree ---
+
+export type TextFieldKind = 'name' | 'lore' | 'sign' | 'page' | 'other';
+
+const NAME_FIELDS = ['CustomName', 'minecraft:custom_name', 'minecraft:item_name'];
+
+// Starts like JSON and parses into something the game would accept as a component
+export const looksLikeTextComponent = (value: string): boolean => {
+  const v = value.trim();
+  if (!/^[{["]/.test(v)) return false;
+  try {
+    const parsed = JSON.parse(v);
+    // Number arrays like [1,2] are valid components too, but never meant as text
+    return parsed !== null && JSON.stringify(parsed).includes('"') && validateTextComponent(parsed).length === 0;
+  } catch {
+    return false;
+  }
+};
+
+const LORE_LISTS = ['Lore', 'minecraft:lore'];
+const SIGN_LISTS = ['messages', 'filtered_messages'];
+
+// Lists whose elements are text components; other list elements don't need their parent to be classified
+export const isTextList = (tag: NBTTag | null): boolean =>
+  tag?.type === TagType.List && [...LORE_LISTS, ...SIGN_LISTS].includes(tag.name ?? '');
+
+// Fields that hold a text component, whatever tag type it is stored as
+const knownFieldKind = (tag: NBTTag, parent: NBTTag | null): TextFieldKind | null => {
+  if ((tag.name === 'Name' && parent?.name === 'display') || NAME_FIELDS.includes(tag.name ?? '')) return 'name';
+  if (tag.name && /^Text[1-4]$/.test(tag.name)) return 'sign';
+  if (tag.name === null && parent?.type === TagType.List) {
+    if (LORE_LISTS.includes(parent.name ?? '')) return 'lore';
+    if (SIGN_LISTS.includes(parent.name ?? '')) return 'sign';
+  }
+  return null;
+};
+
+// Known fields are recognized even when their JSON is broken, so it can be repaired in the editor
+export const detectTextField = (tag: NBTTag, parent: NBTTag | null): TextFieldKind | null => {
+  if (tag.type !== TagType.String) return null;
+  const known = knownFieldKind(tag, parent);
+  if (known) return known;
+  // Book and quill pages are plain text; only signed books hold JSON
+  if (tag.name === null && parent?.type === TagType.List && parent.name === 'pages') return looksLikeTextComponent(tag.value) ? 'page' : null;
+  return looksLikeTextComponent(tag.value) ? 'other' : null;
+};
+
+// 1.21.5+ stores names, lore and sign lines as compounds and lists. These are previewed but not editable:
+// the editor writes the JSON strings of earlier versions, and the NBT form renamed the event fields
+export const detectNbtTextField = (tag: NBTTag, parent: NBTTag | null): TextFieldKind | null =>
+  tag.type === TagType.Compound || tag.type === TagType.List ? knownFieldKind(tag, parent) : null;
+
+// How the game styles each kind of field before the component's own formatting
+export const TEXT_FIELD_BASE: Record<TextFieldKind, TextStyle> = {
+  name: { italic: true },
+  lore: { color: NAMED_COLORS.dark_purple, italic: true },
+  sign: { color: NAMED_COLORS.black },
+  page: { color: NAMED_COLORS.black },
+  other: {},
+};
@@ -0,0 +1,68 @@
+import { ZipReader } from './zipFile';
+
+// assets/<namespace>/textures/<item|block>/<path>.png, which is the same layout for the client jar,
+// resource packs and mod jars, so each mod's namespace resolves to its own folder
+const TEXTURE_PATH = /^assets\/([^/]+)\/textures\/(item|block)\/(.+)\.png$/;
+
+// Blocks rarely have a texture under their own name; these are tried after the exact name
+const BLOCK_SUFFIXES = ['', '_front', '_side', '_top', '_0'];
+
+// Texture lookup for one archive. Entries are only inflated when an icon is first shown.
+export class TexturePack {
+  readonly namespaces = new Set<string>();
+  private textures = new Map<string, string>(); // "<ns>:<item|block>/<path>" → zip entry
+  private byBasename = new Map<string, string>(); // "<ns>:<file name>" → zip entry, for textures in subfolders
+  private urls = new Map<string, string | null>();
+
+  constructor(readonly name: string, private zip: ZipReader) {
+    for (const path of zip.entries.keys()) {
+      const match = TEXTURE_PATH.exec(path);
+      if (!match) continue;
+      const [, namespace, kind, name] = match;
+      this.namespaces.add(namespace);
+      this.textures.set(`${namespace}:${kind}/${name}`, path);
+      const basename = `${namespace}:${name.slice(name.lastIndexOf('/') + 1)}`;
+      // Item textures win over block textures of the same name
+      if (kind === 'item' || !this.byBasename.has(basename)) this.byBasename.set(basename, path);
+    }
+  }
+
+  get size(): number {
+    return this.textures.size;
+  }
+
+  // Object URL of the icon for an item id, or null when the archive has nothing for it
+  resolve(itemId: string): string | null {
+    const [namespace, name] = itemId.includes(':') ? itemId.split(':', 2) : ['minecraft', itemId];
+    const key = `${namespace}:${name}`;
+    if (this.urls.has(key)) return this.urls.get(key)!;
+
+    const path = this.textures.get(`${namespace}:item/${name}`)
+      ?? BLOCK_SUFFIXES.map(suffix => this.textures.get(`${namespace}:block/${name}${suffix}`)).find(Boolean)
+      ?? this.byBasename.get(key);
+    const data = path ? this.zip.read(path) : null;
+    const url = data ? URL.createObjectURL(new Blob([data], { type: 'image/png' })) : null;
+    this.urls.set(key, url);
+    return url;
+  }
+
+  dispose() {
+    this.urls.forEach(url => url && URL.revokeObjectURL(url));
+    this.urls.clear();
+  }
+}
+
+export const loadTexturePack = (name: string, data: ArrayBuffer): TexturePack => {
+  const pack = new TexturePack(name, new ZipReader(new Uint8Array(data)));
+  if (pack.size === 0) throw new Error("壓縮檔中沒有 assets/*/textures/item 或 textures/block 材質");
+  return pack;
+};
+
+// Packs loaded later take priority, like a resource pack stacked on top of the client jar
+export const resolveItemTexture = (packs: TexturePack[], itemId: string): string | null => {
+  for (let i = packs.length - 1; i >= 0; i--) {
+    const url = packs[i].resolve(itemId);
+    if (url) return url;
+  }
+  return null;
+};
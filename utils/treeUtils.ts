@@ -1,7 +1,35 @@
-import { NBTTag, TagType } from "../types";
+import { NBTTag, TagType, TagTypeNames } from "../types";
+
+export type NodeId = number;
+
+// Stable identity for tree nodes, independent of names and list positions.
+// Keyed by object so parsed trees need no extra fields; edits carry the id over to the replacement object.
+const nodeIds = new WeakMap<NBTTag, NodeId>();
+let nextNodeId = 1;
+
+export const getNodeId = (tag: NBTTag): NodeId => {
+    let id = nodeIds.get(tag);
+    if (id === undefined) {
+        id = nextNodeId++;
+        nodeIds.set(tag, id);
+    }
+    return id;
+};
+
+export const inheritNodeId = (from: NBTTag, to: NBTTag): NBTTag => {
+    if (from !== to && !nodeIds.has(to)) nodeIds.set(to, getNodeId(from));
+    return to;
+};
 
 // Deep clone to ensure immutability in history
-export const cloneTag = (tag: NBTTag): NBTTag => {
+// Clones keep the node ids, so undo/redo snapshots preserve selection and expansion
+export const cloneTag = (tag: NBTTag): NBTTag => inheritNodeId(tag, cloneValue(tag));
+
+const cloneValue = (tag: NBTTag): NBTTag => {
+  if (ArrayBuffer.isView(tag.value)) {
+    // ByteArray, IntArray, LongArray are typed arrays
+    return { ...tag, value: (tag.value as Int8Array | Int32Array | BigInt64Array).slice() };
+  }
   if (Array.isArray(tag.value)) {
     // IntArray, ByteArray, LongArray are arrays of primitives, but Compound is array of Objects
     if (tag.type === TagType.Compound) {
@@ -22,54 +50,199 @@ export const cloneTag = (tag: NBTTag): NBTTag => {
   return { ...tag };
 };
 
-// Flatten tree to paths for Range Selection and Invert Selection
-// Returns array of paths in visual order
-export const flattenTree = (tag: NBTTag, parentPath: string = 'root'): string[] => {
-    let paths: string[] = [parentPath];
-    
+// Deep copy that gets fresh node ids, for duplicates that live next to the original
+export const copyTag = (tag: NBTTag): NBTTag => {
+  if (ArrayBuffer.isView(tag.value)) return { ...tag, value: (tag.value as Int8Array | Int32Array | BigInt64Array).slice() };
+  if (tag.type === TagType.Compound) return { ...tag, value: (tag.value as NBTTag[]).map(copyTag) };
+  if (tag.type === TagType.List) return { ...tag, value: { itemType: tag.value.itemType, list: (tag.value.list as NBTTag[]).map(copyTag) } };
+  return { ...tag };
+};
+
+// Converts edited text into a value of the given primitive type, throwing a user-facing message when it doesn't fit
+export const parseTagValue = (type: TagType, text: string): any => {
+    // Trim whitespace for numeric parsing to prevent errors (e.g. " 7000" or "7000 ")
+    const valTrimmed = text.trim();
+    switch (type) {
+        case TagType.Byte: {
+            const v = parseInt(valTrimmed);
+            if (isNaN(v)) throw new Error("並非有效的整數");
+            if (v < -128 || v > 127) throw new Error("超出 Byte 範圍 (-128 ~ 127)");
+            return v;
+        }
+        case TagType.Short: {
+            const v = parseInt(valTrimmed);
+            if (isNaN(v)) throw new Error("並非有效的整數");
+            if (v < -32768 || v > 32767) throw new Error("超出 Short 範圍 (-32768 ~ 32767)");
+            return v;
+        }
+        case TagType.Int: {
+            const v = parseInt(valTrimmed);
+            if (isNaN(v)) throw new Error("並非有效的整數");
+            if (v < -2147483648 || v > 2147483647) throw new Error("超出 Int 範圍 (-2147483648 ~ 2147483647)");
+            return v;
+        }
+        case TagType.Long: {
+            let v: bigint;
+            try {
+                // BigInt is strict, spaces or decimals will crash it.
+                v = BigInt(valTrimmed);
+            } catch (e) {
+                throw new Error("無效的 Long (長整數) 格式。請確保沒有小數點或非法字元。");
+            }
+            if (v < -(2n ** 63n) || v >= 2n ** 63n) throw new Error("超出 Long 範圍");
+            return v;
+        }
+        case TagType.Float:
+        case TagType.Double: {
+            const v = parseFloat(valTrimmed);
+            if (isNaN(v)) throw new Error("無效的浮點數");
+            return type === TagType.Float ? Math.fround(v) : v;
+        }
+        case TagType.String:
+            return text; // Keep original formatting for strings (don't trim)
+        case TagType.ByteArray:
+        case TagType.IntArray:
+        case TagType.LongArray:
+            throw new Error("請使用展開視圖編輯陣列元素，無法直接編輯原始字串。");
+        default:
+            throw new Error(`無法編輯 ${TagTypeNames[type]} 的值`);
+    }
+};
+
+// Flatten tree to node ids for Range Selection and Invert Selection
+// Returns array of ids in visual order
+export const flattenTree = (tag: NBTTag, out: NodeId[] = []): NodeId[] => {
+    out.push(getNodeId(tag));
     if (tag.type === TagType.Compound) {
-        (tag.value as NBTTag[]).forEach(child => {
-            paths = paths.concat(flattenTree(child, `${parentPath}.${child.name}`));
-        });
+        (tag.value as NBTTag[]).forEach(child => flattenTree(child, out));
     } else if (tag.type === TagType.List) {
-        (tag.value.list as NBTTag[]).forEach((child, idx) => {
-            paths = paths.concat(flattenTree(child, `${parentPath}[${idx}]`));
-        });
+        (tag.value.list as NBTTag[]).forEach(child => flattenTree(child, out));
     }
-    
-    return paths;
+    return out;
 };
 
-// Delete nodes that match the set of paths
-export const deleteNodesByPaths = (root: NBTTag, pathsToDelete: Set<string>): NBTTag => {
-    const recursiveDelete = (tag: NBTTag, currentPath: string): NBTTag | null => {
-        if (pathsToDelete.has(currentPath)) {
-            return null; // Signal to delete this node
-        }
+// Delete nodes by id; removal never shifts the identity of their siblings
+export const deleteNodesByIds = (root: NBTTag, idsToDelete: Set<NodeId>): NBTTag => {
+    const recursiveDelete = (tag: NBTTag): NBTTag | null => {
+        if (idsToDelete.has(getNodeId(tag))) return null;
 
         if (tag.type === TagType.Compound) {
-            const newValue = (tag.value as NBTTag[])
-                .map(child => recursiveDelete(child, `${currentPath}.${child.name}`))
-                .filter((child): child is NBTTag => child !== null);
-            return { ...tag, value: newValue };
-        } 
-        
+            const children = tag.value as NBTTag[];
+            const newValue = children.map(recursiveDelete).filter((child): child is NBTTag => child !== null);
+            if (newValue.length === children.length && newValue.every((c, i) => c === children[i])) return tag;
+            return inheritNodeId(tag, { ...tag, value: newValue });
+        }
+
         if (tag.type === TagType.List) {
-            const newList = (tag.value.list as NBTTag[])
-                .map((child, idx) => recursiveDelete(child, `${currentPath}[${idx}]`)) // Note: Indices shift after delete in real-time, but paths are fixed snapshots. 
-                // However, for bulk delete by ID/Path, we must be careful. 
-                // The current path generation strategy relies on static indices. 
-                // If we delete index 0, index 1 becomes 0.
-                // A better strategy for bulk delete in lists is to filter.
-                .filter((child): child is NBTTag => child !== null);
-            return { ...tag, value: { ...tag.value, list: newList } };
+            const list = tag.value.list as NBTTag[];
+            const newList = list.map(recursiveDelete).filter((child): child is NBTTag => child !== null);
+            if (newList.length === list.length && newList.every((c, i) => c === list[i])) return tag;
+            return inheritNodeId(tag, { ...tag, value: { ...tag.value, list: newList } });
         }
 
         return tag;
     };
 
-    // We clone first to avoid mutating the original state reference if the operation is partial
-    // But since we are building a new tree, we can just start.
-    const result = recursiveDelete(cloneTag(root), 'root');
+    const result = recursiveDelete(root);
     return result || { ...root, value: [] }; // Should not happen for root unless root is deleted (blocked in UI)
 };
+
+// A visible line of the virtualized tree
+export interface FlatRow {
+    tag: NBTTag;
+    id: NodeId;
+    depth: number;
+    indices: number[]; // Child positions from the root, used to address the node for updates
+    parent: NBTTag | null;
+}
+
+// Only descends into expanded containers, so the result is exactly what the tree shows
+export const flattenVisible = (root: NBTTag, expanded: Set<NodeId>): FlatRow[] => {
+    const rows: FlatRow[] = [];
+    const visit = (tag: NBTTag, depth: number, indices: number[], parent: NBTTag | null) => {
+        const id = getNodeId(tag);
+        rows.push({ tag, id, depth, indices, parent });
+        if (!expanded.has(id)) return;
+        if (tag.type === TagType.Compound) {
+            (tag.value as NBTTag[]).forEach((child, idx) => visit(child, depth + 1, [...indices, idx], tag));
+        } else if (tag.type === TagType.List) {
+            (tag.value.list as NBTTag[]).forEach((child, idx) => visit(child, depth + 1, [...indices, idx], tag));
+        }
+    };
+    visit(root, 0, [], null);
+    return rows;
+};
+
+// Rebuilds only the branch leading to `indices`; `update` returns the replacement or null to remove the node.
+// Untouched subtrees keep their identity so memoized rows don't re-render.
+export const updateAt = (tag: NBTTag, indices: number[], update: (target: NBTTag) => NBTTag | null): NBTTag => {
+    if (indices.length === 0) {
+        const result = update(tag);
+        if (!result) throw new Error("無法刪除根目錄。");
+        return inheritNodeId(tag, result);
+    }
+
+    const [idx, ...rest] = indices;
+    const apply = (child: NBTTag) => rest.length === 0 ? update(child) : updateAt(child, rest, update);
+
+    if (tag.type === TagType.Compound) {
+        const children = [...(tag.value as NBTTag[])];
+        const updated = apply(children[idx]);
+        if (updated) children[idx] = inheritNodeId(children[idx], updated);
+        else children.splice(idx, 1);
+        return inheritNodeId(tag, { ...tag, value: children });
+    }
+
+    if (tag.type === TagType.List) {
+        const list = [...(tag.value.list as NBTTag[])];
+        let itemType = tag.value.itemType;
+        const updated = apply(list[idx]);
+        if (updated) {
+            // A replaced item may change type; only allowed when it is the sole element
+            if (updated.type !== itemType) {
+                if (list.length > 1) throw new Error(`列表元素必須為 ${TagTypeNames[itemType as TagType]}`);
+                itemType = updated.type;
+            }
+            list[idx] = inheritNodeId(list[idx], updated);
+        } else {
+            list.splice(idx, 1);
+        }
+        return inheritNodeId(tag, { ...tag, value: { itemType, list } });
+    }
+
+    throw new Error("Path does not point into a container");
+};
+
+// Locates a node by id, with the child positions leading to it
+export const findById = (tag: NBTTag, id: NodeId, indices: number[] = []): { tag: NBTTag; indices: number[] } | null => {
+    if (getNodeId(tag) === id) return { tag, indices };
+    const children: NBTTag[] = tag.type === TagType.Compound ? tag.value : tag.type === TagType.List ? tag.value.list : [];
+    for (let i = 0; i < children.length; i++) {
+        const found = findById(children[i], id, [...indices, i]);
+        if (found) return found;
+    }
+    return null;
+};
+
+// Ids of every container in the tree (for "expand all")
+export const collectContainerIds = (tag: NBTTag, out: Set<NodeId> = new Set()): Set<NodeId> => {
+    if (tag.type === TagType.Compound) {
+        out.add(getNodeId(tag));
+        (tag.value as NBTTag[]).forEach(child => collectContainerIds(child, out));
+    } else if (tag.type === TagType.List) {
+        out.add(getNodeId(tag));
+        (tag.value.list as NBTTag[]).forEach(child => collectContainerIds(child, out));
+    }
+    return out;
+};
+
+// Ids of the containers enclosing any of `targets`, i.e. what must be expanded to show them
+export const collectAncestorIds = (tag: NBTTag, targets: Set<NodeId>, out: Set<NodeId> = new Set()): boolean => {
+    let found = false;
+    const children: NBTTag[] = tag.type === TagType.Compound ? tag.value : tag.type === TagType.List ? tag.value.list : [];
+    children.forEach(child => {
+        if (collectAncestorIds(child, targets, out)) found = true;
+    });
+    if (found) out.add(getNodeId(tag));
+    return found || targets.has(getNodeId(tag));
+};
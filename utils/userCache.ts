@@ -0,0 +1,40 @@
+// Player names from a server's usercache.json, keyed by dashed lowercase UUID
+export type UserCache = Map<string, string>;
+
+export const USERCACHE_FILENAME = 'usercache.json';
+
+const UUID_FILENAME = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.dat(?:_old)?$/i;
+
+// The file is a JSON array of { name, uuid, expiresOn }; expired entries still name the right player
+export const parseUserCache = (text: string): UserCache => {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) throw new Error("usercache.json must contain an array");
+  const cache: UserCache = new Map();
+  for (const entry of data) {
+    if (entry && typeof entry.uuid === 'string' && typeof entry.name === 'string') {
+      cache.set(entry.uuid.toLowerCase(), entry.name);
+    }
+  }
+  return cache;
+};
+
+// playerdata/<uuid>.dat, also matches the .dat_old backups
+export const uuidFromFilename = (filename: string): string | null => {
+  const match = UUID_FILENAME.exec(filename);
+  return match ? match[1].toLowerCase() : null;
+};
+
+export const playerNameFor = (filename: string, cache: UserCache): string | null => {
+  const uuid = uuidFromFilename(filename);
+  return uuid ? cache.get(uuid) ?? null : null;
+};
+
+// Players whose name contains the term, best matches (exact, then prefix) first
+export const findPlayers = (cache: UserCache, term: string): { uuid: string; name: string }[] => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return [];
+  const rank = (name: string) => name === needle ? 0 : name.startsWith(needle) ? 1 : 2;
+  return Array.from(cache, ([uuid, name]) => ({ uuid, name }))
+    .filter(p => p.name.toLowerCase().includes(needle))
+    .sort((a, b) => rank(a.name.toLowerCase()) - rank(b.name.toLowerCase()) || a.name.localeCompare(b.name));
+};
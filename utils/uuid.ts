@@ -0,0 +1,159 @@
+import { TagType, NBTTag } from '../types';
+
+// Minecraft stores UUIDs three ways: an IntArray of four ints (1.16+), a pair of Longs named
+// <prefix>Most / <prefix>Least (before 1.16), and dashed strings (pet owners in 1.12-1.15).
+// All helpers here work on the dashed lowercase form.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+const bytesToUUID = (bytes: Uint8Array): string => {
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Accepts dashed or undashed hex, returns null for anything else
+export const normalizeUUID = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (!UUID_PATTERN.test(trimmed)) return null;
+  const hex = trimmed.replace(/-/g, '').toLowerCase();
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const uuidHex = (uuid: string) => uuid.replace(/-/g, '');
+
+export const uuidToInts = (uuid: string): Int32Array => {
+  const hex = uuidHex(uuid);
+  return Int32Array.from([0, 8, 16, 24], i => parseInt(hex.slice(i, i + 8), 16) | 0);
+};
+
+export const intsToUUID = (ints: ArrayLike<number>): string => {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) view.setInt32(i * 4, ints[i]);
+  return bytesToUUID(bytes);
+};
+
+export const uuidToLongs = (uuid: string): [bigint, bigint] => {
+  const hex = uuidHex(uuid);
+  return [BigInt.asIntN(64, BigInt(`0x${hex.slice(0, 16)}`)), BigInt.asIntN(64, BigInt(`0x${hex.slice(16)}`))];
+};
+
+export const longsToUUID = (most: bigint, least: bigint): string => {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  view.setBigInt64(0, most);
+  view.setBigInt64(8, least);
+  return bytesToUUID(bytes);
+};
+
+// What an offline-mode server assigns: UUID v3 of "OfflinePlayer:<name>"
+export const offlineUUID = (name: string): string => {
+  const bytes = md5(new TextEncoder().encode(`OfflinePlayer:${name}`));
+  bytes[6] = (bytes[6] & 0x0f) | 0x30;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return bytesToUUID(bytes);
+};
+
+// --- UUID fields in a tree ---
+
+// Where a UUID sits: an IntArray[4] on its own, or a <prefix>Most / <prefix>Least pair in one compound
+export interface UUIDField {
+  uuid: string;
+  pair: { prefix: string; mostIndex: number; leastIndex: number } | null;
+}
+
+// Cheap check so only likely rows need their parent looked at
+export const isUUIDCandidate = (tag: NBTTag): boolean =>
+  (tag.type === TagType.IntArray && tag.value.length === 4) ||
+  (tag.type === TagType.Long && tag.name !== null && /(Most|Least)$/.test(tag.name));
+
+export const detectUUIDField = (tag: NBTTag, parent: NBTTag | null): UUIDField | null => {
+  if (tag.type === TagType.IntArray && tag.value.length === 4) return { uuid: intsToUUID(tag.value), pair: null };
+  if (tag.type !== TagType.Long || !tag.name || parent?.type !== TagType.Compound) return null;
+  const match = /^(.*)(Most|Least)$/.exec(tag.name);
+  if (!match) return null;
+  const children = parent.value as NBTTag[];
+  const find = (name: string) => children.findIndex(c => c.type === TagType.Long && c.name === name);
+  const mostIndex = find(`${match[1]}Most`);
+  const leastIndex = find(`${match[1]}Least`);
+  if (mostIndex < 0 || leastIndex < 0) return null;
+  return { uuid: longsToUUID(children[mostIndex].value, children[leastIndex].value), pair: { prefix: match[1], mostIndex, leastIndex } };
+};
+
+const assertFreeName = (children: NBTTag[], name: string, except: number[]) => {
+  if (children.some((c, i) => !except.includes(i) && c.name === name)) throw new Error(`已存在名為 "${name}" 的標籤`);
+};
+
+// The functions below return the new parent compound
+
+export const writeUUIDPair = (parent: NBTTag, pair: NonNullable<UUIDField['pair']>, uuid: string): NBTTag => {
+  const [most, least] = uuidToLongs(uuid);
+  const children = [...parent.value as NBTTag[]];
+  children[pair.mostIndex] = { ...children[pair.mostIndex], value: most };
+  children[pair.leastIndex] = { ...children[pair.leastIndex], value: least };
+  return { ...parent, value: children };
+};
+
+// UUIDMost/UUIDLeast becomes "UUID", the same renaming the game did in 1.16
+export const pairToIntArray = (parent: NBTTag, pair: NonNullable<UUIDField['pair']>, uuid: string): NBTTag => {
+  const children = [...parent.value as NBTTag[]];
+  const name = pair.prefix || 'UUID';
+  assertFreeName(children, name, [pair.mostIndex, pair.leastIndex]);
+  children[pair.mostIndex] = { type: TagType.IntArray, name, value: uuidToInts(uuid) };
+  children.splice(pair.leastIndex, 1);
+  return { ...parent, value: children };
+};
+
+export const intArrayToPair = (parent: NBTTag, index: number, uuid: string): NBTTag => {
+  const children = [...parent.value as NBTTag[]];
+  const prefix = children[index].name ?? '';
+  assertFreeName(children, `${prefix}Most`, [index]);
+  assertFreeName(children, `${prefix}Least`, [index]);
+  const [most, least] = uuidToLongs(uuid);
+  children.splice(index, 1,
+    { type: TagType.Long, name: `${prefix}Most`, value: most },
+    { type: TagType.Long, name: `${prefix}Least`, value: least });
+  return { ...parent, value: children };
+};
+
+// --- MD5 (RFC 1321), Web Crypto doesn't offer it ---
+
+const SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+const md5 = (input: Uint8Array): Uint8Array => {
+  const length = ((input.length + 8) >>> 6 << 6) + 64;
+  const data = new Uint8Array(length);
+  data.set(input);
+  data[input.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(length - 8, (input.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(input.length / 0x20000000), true);
+
+  let a0 = 0x67452301, b0 = 0xefcdab89, c0 = 0x98badcfe, d0 = 0x10325476;
+  for (let offset = 0; offset < length; offset += 64) {
+    let a = a0, b = b0, c = c0, d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number, g: number;
+      if (i < 16) { f = (b & c) | (~b & d); g = i; }
+      else if (i < 32) { f = (d & b) | (~d & c); g = (5 * i + 1) % 16; }
+      else if (i < 48) { f = b ^ c ^ d; g = (3 * i + 5) % 16; }
+      else { f = c ^ (b | ~d); g = (7 * i) % 16; }
+      const sum = (a + f + K[i] + view.getUint32(offset + g * 4, true)) | 0;
+      const shift = SHIFTS[(i >> 4) * 4 + (i % 4)];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const out = new Uint8Array(16);
+  const outView = new DataView(out.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => outView.setUint32(i * 4, word >>> 0, true));
+  return out;
+};
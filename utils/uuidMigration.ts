@@ -0,0 +1,168 @@
+import { TagType, NBTTag, NBTFile, RegionData } from '../types';
+import { NBTPath } from './nbtPath';
+import { inheritNodeId } from './treeUtils';
+import { RegionParser, RegionWriter } from './regionFile';
+import { UserCache, uuidFromFilename } from './userCache';
+import { renamePath } from './workspace';
+import { normalizeUUID, intsToUUID, uuidToInts, longsToUUID, uuidToLongs, offlineUUID } from './uuid';
+
+// Old UUID → new UUID, both dashed lowercase
+export type UUIDMapping = Map<string, string>;
+
+export type MigrationDirection = 'online-to-offline' | 'offline-to-online';
+
+export interface MappingRow {
+  name: string | null;
+  from: string;
+  to: string;
+}
+
+export interface UUIDChange {
+  path: string;
+  kind: 'IntArray' | 'Most/Least' | 'String';
+  before: string;
+  after: string;
+}
+
+export interface MigrationReport {
+  fileId: string;
+  filename: string;
+  changes: UUIDChange[];
+  root?: NBTTag; // Set when the tree changed
+  region?: RegionData; // Set when chunks of a region tab changed
+  rename?: { filename: string; relativePath?: string };
+  errors: string[];
+}
+
+// Each line is "name", "name old new" or "old new". A bare name is resolved through usercache.json
+// for its online UUID; the offline one is always computed from the name.
+export const parseMapping = (text: string, direction: MigrationDirection, cache: UserCache): { rows: MappingRow[]; errors: string[] } => {
+  const byName = new Map(Array.from(cache, ([uuid, name]) => [name.toLowerCase(), uuid]));
+  const rows: MappingRow[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((line, i) => {
+    const tokens = line.split(/[\s,]+|->|→/).filter(Boolean);
+    if (tokens.length === 0) return;
+    const uuids = tokens.map(normalizeUUID);
+    const name = uuids[0] === null ? tokens[0] : null;
+    const given = uuids.filter((u): u is string => u !== null);
+
+    if (given.length === 2 && tokens.length === (name ? 3 : 2)) {
+      rows.push({ name, from: given[0], to: given[1] });
+    } else if (name && tokens.length === 1) {
+      const online = byName.get(name.toLowerCase());
+      if (!online) {
+        errors.push(`第 ${i + 1} 行: usercache.json 中找不到玩家 "${name}"`);
+        return;
+      }
+      const offline = offlineUUID(name);
+      rows.push(direction === 'online-to-offline' ? { name, from: online, to: offline } : { name, from: offline, to: online });
+    } else {
+      errors.push(`第 ${i + 1} 行: 格式應為「名稱」、「名稱 舊UUID 新UUID」或「舊UUID 新UUID」`);
+    }
+  });
+
+  rows.forEach(row => {
+    if (row.from === row.to) errors.push(`${row.name ?? row.from}: 新舊 UUID 相同`);
+  });
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    if (seen.has(row.from)) errors.push(`${row.from} 重複出現`);
+    seen.add(row.from);
+  });
+  return { rows, errors };
+};
+
+// Rewrites every UUID in the mapping, whichever of the three encodings it uses
+export const migrateTag = (root: NBTTag, mapping: UUIDMapping): { root: NBTTag; changes: UUIDChange[] } => {
+  const found: { indices: number[]; kind: UUIDChange['kind']; before: string; after: string; suffix?: string }[] = [];
+
+  const visit = (tag: NBTTag, indices: number[]): NBTTag => {
+    if (tag.type === TagType.IntArray && tag.value.length === 4) {
+      const uuid = intsToUUID(tag.value);
+      const to = mapping.get(uuid);
+      if (!to) return tag;
+      found.push({ indices, kind: 'IntArray', before: uuid, after: to });
+      return inheritNodeId(tag, { ...tag, value: uuidToInts(to) });
+    }
+    if (tag.type === TagType.String) {
+      const uuid = normalizeUUID(tag.value);
+      const to = uuid && mapping.get(uuid);
+      if (!to) return tag;
+      // Keep the spelling the game wrote: dashed or not
+      const value = tag.value.includes('-') ? to : to.replace(/-/g, '');
+      found.push({ indices, kind: 'String', before: tag.value, after: value });
+      return inheritNodeId(tag, { ...tag, value });
+    }
+    if (tag.type === TagType.List) {
+      const list = tag.value.list.map((child: NBTTag, i: number) => visit(child, [...indices, i]));
+      return list.some((c: NBTTag, i: number) => c !== tag.value.list[i]) ? inheritNodeId(tag, { ...tag, value: { ...tag.value, list } }) : tag;
+    }
+    if (tag.type === TagType.Compound) {
+      const children: NBTTag[] = tag.value.map((child: NBTTag, i: number) => visit(child, [...indices, i]));
+      children.forEach((most, i) => {
+        if (most.type !== TagType.Long || !most.name?.endsWith('Most')) return;
+        const prefix = most.name.slice(0, -4);
+        const j = children.findIndex(c => c.type === TagType.Long && c.name === `${prefix}Least`);
+        if (j < 0) return;
+        const uuid = longsToUUID(most.value, children[j].value);
+        const to = mapping.get(uuid);
+        if (!to) return;
+        const [newMost, newLeast] = uuidToLongs(to);
+        children[i] = inheritNodeId(most, { ...most, value: newMost });
+        children[j] = inheritNodeId(children[j], { ...children[j], value: newLeast });
+        found.push({ indices: [...indices, i], kind: 'Most/Least', before: uuid, after: to, suffix: `/${prefix}Least` });
+      });
+      return children.some((c, i) => c !== tag.value[i]) ? inheritNodeId(tag, { ...tag, value: children }) : tag;
+    }
+    return tag;
+  };
+
+  const result = visit(root, []);
+  const changes = found.map(f => ({
+    path: (f.indices.length ? NBTPath.format(NBTPath.fromIndices(root, f.indices)) : '(根目錄)') + (f.suffix ?? ''),
+    kind: f.kind,
+    before: f.before,
+    after: f.after,
+  }));
+  return { root: result, changes };
+};
+
+// Chunks are decoded one at a time and only re-encoded when something in them changed
+const migrateRegion = (region: RegionData, mapping: UUIDMapping, report: MigrationReport) => {
+  let chunks: RegionData['chunks'] | null = null;
+  region.chunks.forEach((chunk, index) => {
+    if (!chunk || chunk.external) return;
+    try {
+      const { root, changes } = migrateTag(RegionParser.readChunk(chunk), mapping);
+      if (changes.length === 0) return;
+      chunks ??= [...region.chunks];
+      chunks[index] = RegionWriter.encodeChunk(chunk, root);
+      changes.forEach(c => report.changes.push({ ...c, path: `[${chunk.x}, ${chunk.z}] ${c.path}` }));
+    } catch (e) {
+      report.errors.push(`區塊 [${chunk.x}, ${chunk.z}]: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+  if (chunks) report.region = { ...region, chunks };
+};
+
+export const migrateFile = (file: NBTFile, mapping: UUIDMapping): MigrationReport => {
+  const report: MigrationReport = { fileId: file.id, filename: file.filename, changes: [], errors: [] };
+  if (file.region) {
+    migrateRegion(file.region, mapping, report);
+  } else {
+    const { root, changes } = migrateTag(file.root, mapping);
+    report.changes = changes;
+    if (changes.length > 0) report.root = root;
+  }
+
+  // playerdata/<uuid>.dat follows its owner
+  const uuid = file.chunkOf ? null : uuidFromFilename(file.filename);
+  const to = uuid && mapping.get(uuid);
+  if (to) {
+    const filename = to + file.filename.slice(uuid.length);
+    report.rename = { filename, relativePath: renamePath(file.relativePath, filename) };
+  }
+  return report;
+};
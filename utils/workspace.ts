@@ -0,0 +1,121 @@
+import { USERCACHE_FILENAME } from './userCache';
+
+// A folder opened as a whole (usually a world save). Files are kept as File handles
+// and only parsed when opened from the explorer.
+
+export interface WorkspaceEntry {
+  path: string; // Relative to the parent of the opened folder, e.g. "world/playerdata/<uuid>.dat"
+  file: File;
+}
+
+export interface Workspace {
+  name: string;
+  entries: WorkspaceEntry[];
+  usercache?: File; // The server's usercache.json, if the folder has one
+}
+
+export interface WorkspaceFolder {
+  name: string;
+  path: string;
+  folders: WorkspaceFolder[];
+  files: WorkspaceEntry[];
+}
+
+// Everything else in a world folder (icons, json stats, session.lock) only clutters the explorer
+const NBT_EXTENSIONS = ['.dat', '.dat_old', '.nbt', '.mca', '.mcr', '.schem', '.schematic', '.litematic', '.mcstructure'];
+
+export const isNBTFilename = (name: string) => {
+  const lower = name.toLowerCase();
+  return NBT_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+// A renamed tab stays in the same workspace folder; only the last segment of its path changes
+export const renamePath = (path: string | undefined, filename: string): string | undefined =>
+  path === undefined ? undefined : path.slice(0, path.lastIndexOf('/') + 1) + filename;
+
+const byPath = (a: WorkspaceEntry, b: WorkspaceEntry) => a.path.localeCompare(b.path);
+
+const depth = (path: string) => path.split('/').length;
+
+// A server folder holds usercache.json next to the world; the shallowest one wins
+const pickUsercache = (found: WorkspaceEntry[]): File | undefined =>
+  found.sort((a, b) => depth(a.path) - depth(b.path))[0]?.file;
+
+// From an <input webkitdirectory>, whose files carry their relative path
+export const workspaceFromFileList = (files: FileList): Workspace | null => {
+  const all = Array.from(files).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+  if (all.length === 0) return null;
+  return {
+    name: all[0].path.split('/')[0],
+    entries: all.filter(e => isNBTFilename(e.file.name)).sort(byPath),
+    usercache: pickUsercache(all.filter(e => e.file.name.toLowerCase() === USERCACHE_FILENAME)),
+  };
+};
+
+const readAllEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => {
+    const all: FileSystemEntry[] = [];
+    // readEntries hands out directories in batches (100 in Chrome) until it returns an empty one
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) resolve(all);
+      else {
+        all.push(...batch);
+        next();
+      }
+    }, reject);
+    next();
+  });
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkDirectory = async (dir: FileSystemDirectoryEntry, prefix: string, out: WorkspaceEntry[], caches: WorkspaceEntry[]) => {
+  for (const entry of await readAllEntries(dir.createReader())) {
+    const path = `${prefix}/${entry.name}`;
+    if (entry.isDirectory) await walkDirectory(entry as FileSystemDirectoryEntry, path, out, caches);
+    else if (isNBTFilename(entry.name)) out.push({ path, file: await entryFile(entry as FileSystemFileEntry) });
+    else if (entry.name.toLowerCase() === USERCACHE_FILENAME) caches.push({ path, file: await entryFile(entry as FileSystemFileEntry) });
+  }
+};
+
+// Dropped folders become a workspace, dropped loose files are opened directly as before.
+// Entries have to be taken from the DataTransfer synchronously, before the first await.
+export const readDroppedItems = async (data: DataTransfer): Promise<{ files: File[]; workspace: Workspace | null }> => {
+  const entries = Array.from(data.items)
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((e): e is FileSystemEntry => e !== null);
+  if (entries.length === 0) return { files: Array.from(data.files), workspace: null };
+
+  const files: File[] = [];
+  const folders = entries.filter(e => e.isDirectory) as FileSystemDirectoryEntry[];
+  for (const entry of entries) {
+    if (entry.isFile) files.push(await entryFile(entry as FileSystemFileEntry));
+  }
+  if (folders.length === 0) return { files, workspace: null };
+
+  const workspaceEntries: WorkspaceEntry[] = [];
+  const caches: WorkspaceEntry[] = [];
+  for (const folder of folders) await walkDirectory(folder, folder.name, workspaceEntries, caches);
+  return {
+    files,
+    workspace: { name: folders.map(f => f.name).join(', '), entries: workspaceEntries.sort(byPath), usercache: pickUsercache(caches) },
+  };
+};
+
+export const buildFolderTree = (workspace: Workspace): WorkspaceFolder => {
+  const root: WorkspaceFolder = { name: workspace.name, path: '', folders: [], files: [] };
+  for (const entry of workspace.entries) {
+    const parts = entry.path.split('/');
+    let folder = root;
+    parts.slice(0, -1).forEach((part, i) => {
+      let child = folder.folders.find(f => f.name === part);
+      if (!child) {
+        child = { name: part, path: parts.slice(0, i + 1).join('/'), folders: [], files: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    });
+    folder.files.push(entry);
+  }
+  return root;
+};
@@ -0,0 +1,163 @@
+import pako from 'pako';
+
+export interface ZipEntry {
+  path: string; // Forward slashes, relative to the archive root
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+export const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const dosTime = (d: Date) => (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+const dosDate = (d: Date) => ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+
+export class ZipWriter {
+  // Plain zip without zip64, which covers any export a browser tab can hold in memory
+  static write(entries: ZipEntry[]): Uint8Array {
+    if (entries.length > 0xFFFF) throw new Error("Too many entries for a zip archive");
+    const encoder = new TextEncoder();
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = encoder.encode(entry.path.replace(/\\/g, '/').replace(/^\/+/, ''));
+      const crc = crc32(entry.data);
+      // NBT files are usually gzipped already; those are stored rather than deflated twice for nothing
+      const deflated = pako.deflateRaw(entry.data);
+      const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORE;
+      const body = method === METHOD_DEFLATE ? deflated : entry.data;
+      const date = entry.modified ?? new Date();
+      if (offset + body.length > 0xFFFFFFFF) throw new Error("Zip archive exceeds 4 GB");
+
+      const local = new Uint8Array(30 + name.length);
+      const lv = new DataView(local.buffer);
+      lv.setUint32(0, 0x04034B50, true);
+      lv.setUint16(4, 20, true);
+      lv.setUint16(6, FLAG_UTF8, true);
+      lv.setUint16(8, method, true);
+      lv.setUint16(10, dosTime(date), true);
+      lv.setUint16(12, dosDate(date), true);
+      lv.setUint32(14, crc, true);
+      lv.setUint32(18, body.length, true);
+      lv.setUint32(22, entry.data.length, true);
+      lv.setUint16(26, name.length, true);
+      local.set(name, 30);
+
+      const central = new Uint8Array(46 + name.length);
+      const cv = new DataView(central.buffer);
+      cv.setUint32(0, 0x02014B50, true);
+      cv.setUint16(4, 20, true);
+      cv.setUint16(6, 20, true);
+      cv.setUint16(8, FLAG_UTF8, true);
+      cv.setUint16(10, method, true);
+      cv.setUint16(12, dosTime(date), true);
+      cv.setUint16(14, dosDate(date), true);
+      cv.setUint32(16, crc, true);
+      cv.setUint32(20, body.length, true);
+      cv.setUint32(24, entry.data.length, true);
+      cv.setUint16(28, name.length, true);
+      cv.setUint32(42, offset, true);
+      central.set(name, 46);
+
+      locals.push(local, body);
+      centrals.push(central);
+      offset += local.length + body.length;
+    }
+
+    const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054B50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const out = new Uint8Array(offset + centralSize + end.length);
+    let pos = 0;
+    for (const part of [...locals, ...centrals, end]) {
+      out.set(part, pos);
+      pos += part.length;
+    }
+    return out;
+  }
+}
+
+export interface ZipDirectoryEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number; // Of the local header
+}
+
+// Reads the central directory up front and inflates entries on demand, so a 30 MB client jar
+// costs one pass over its directory rather than decompressing every class file
+export class ZipReader {
+  readonly entries = new Map<string, ZipDirectoryEntry>();
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    // The end record sits in the last 22 bytes plus up to 64 KB of archive comment
+    let end = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xFFFF); i--) {
+      if (this.view.getUint32(i, true) === 0x06054B50) { end = i; break; }
+    }
+    if (end < 0) throw new Error("不是有效的 zip 檔案");
+    const count = this.view.getUint16(end + 10, true);
+    let pos = this.view.getUint32(end + 16, true);
+    if (count === 0xFFFF || pos === 0xFFFFFFFF) throw new Error("不支援 zip64 格式的壓縮檔");
+
+    const decoder = new TextDecoder();
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(pos, true) !== 0x02014B50) throw new Error("zip 中央目錄已損壞");
+      const nameLength = this.view.getUint16(pos + 28, true);
+      const extraLength = this.view.getUint16(pos + 30, true);
+      const commentLength = this.view.getUint16(pos + 32, true);
+      const path = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+      if (!path.endsWith('/')) {
+        this.entries.set(path, {
+          path,
+          method: this.view.getUint16(pos + 10, true),
+          compressedSize: this.view.getUint32(pos + 20, true),
+          size: this.view.getUint32(pos + 24, true),
+          offset: this.view.getUint32(pos + 42, true),
+        });
+      }
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  read(path: string): Uint8Array | null {
+    const entry = this.entries.get(path);
+    if (!entry) return null;
+    // The local header may carry a different extra field than the central one
+    const start = entry.offset + 30 + this.view.getUint16(entry.offset + 26, true) + this.view.getUint16(entry.offset + 28, true);
+    const body = this.data.subarray(start, start + entry.compressedSize);
+    switch (entry.method) {
+      case METHOD_STORE: return body;
+      case METHOD_DEFLATE: return pako.inflateRaw(body);
+      default: throw new Error(`Unsupported zip compression method ${entry.method}`);
+    }
+  }
+}